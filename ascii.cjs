@@ -0,0 +1,7 @@
+const { URLPattern, URLPatternList, URLPatternMap, URLPatternPolicyError, URLPatternSyntaxError, parseShorthand, toShorthand } = require("./dist/urlpattern-ascii.cjs");
+
+module.exports = { URLPattern, URLPatternList, URLPatternMap, URLPatternPolicyError, URLPatternSyntaxError, parseShorthand, toShorthand };
+
+if (!globalThis.URLPattern) {
+  globalThis.URLPattern = URLPattern;
+}
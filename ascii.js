@@ -0,0 +1,7 @@
+import { URLPattern, URLPatternList, URLPatternMap, URLPatternPolicyError, URLPatternSyntaxError, parseShorthand, toShorthand } from "./dist/urlpattern-ascii.js";
+
+export { URLPattern, URLPatternList, URLPatternMap, URLPatternPolicyError, URLPatternSyntaxError, parseShorthand, toShorthand };
+
+if (!globalThis.URLPattern) {
+  globalThis.URLPattern = URLPattern;
+}
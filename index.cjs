@@ -1,6 +1,6 @@
-const { URLPattern } = require("./dist/urlpattern.cjs");
+const { URLPattern, URLPatternList, URLPatternMap, URLPatternPolicyError, URLPatternSyntaxError, parseShorthand, toShorthand } = require("./dist/urlpattern.cjs");
 
-module.exports = { URLPattern };
+module.exports = { URLPattern, URLPatternList, URLPatternMap, URLPatternPolicyError, URLPatternSyntaxError, parseShorthand, toShorthand };
 
 if (!globalThis.URLPattern) {
   globalThis.URLPattern = URLPattern;
@@ -1,6 +1,6 @@
-import { URLPattern } from "./dist/urlpattern.js";
+import { URLPattern, URLPatternList, URLPatternMap, URLPatternPolicyError, URLPatternSyntaxError, parseShorthand, toShorthand } from "./dist/urlpattern.js";
 
-export { URLPattern };
+export { URLPattern, URLPatternList, URLPatternMap, URLPatternPolicyError, URLPatternSyntaxError, parseShorthand, toShorthand };
 
 if (!globalThis.URLPattern) {
   globalThis.URLPattern = URLPattern;
@@ -1,9 +1,23 @@
 import type * as Types from "./types.js";
-export { URLPattern } from "./types.js";
+export {
+  URLPattern,
+  URLPatternList,
+  URLPatternMap,
+  URLPatternPolicyError,
+  URLPatternSyntaxError,
+  parseShorthand,
+  toShorthand,
+} from "./types.js";
 
 declare global {
-  class URLPattern extends Types.URLPattern {}
+  var URLPattern: Types.URLPatternConstructor;
+  interface URLPattern<
+    Groups extends Types.URLPatternResultGroups = Types.URLPatternLooseResultGroups
+  > extends Types.URLPattern<Groups> {}
   type URLPatternInit = Types.URLPatternInit;
-  type URLPatternResult = Types.URLPatternResult;
-  type URLPatternComponentResult = Types.URLPatternComponentResult;
+  type URLPatternResult<
+    Groups extends Types.URLPatternResultGroups = Types.URLPatternLooseResultGroups
+  > = Types.URLPatternResult<Groups>;
+  type URLPatternComponentResult<Groups = Types.URLPatternLooseGroups> =
+    Types.URLPatternComponentResult<Groups>;
 }
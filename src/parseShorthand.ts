@@ -1,38 +1,233 @@
-export function parseShorthand(str: string) {
-  let protocol = '';
-  let hostname = '';
-  let pathname = '';
-  let search = '';
-  let hash = '';
+import { lexer, LexToken } from './path-to-regex-modified';
+import { formatCaret, URLPatternSyntaxError } from './url-pattern-syntax-error';
+import type { URLPattern } from './url-pattern';
+import { URLPatternComponent, URLPatternInit } from './url-pattern.interfaces';
 
-  let i = str.indexOf('://');
-  if (i !== -1) {
-    protocol = str.substring(0, i);
-    str = str.substring(i + 3);
+// A shorthand writes the components of a `URLPatternInit` in URL order:
+//
+//  [protocol "://" [username [":" password] "@"] hostname [":" port]]
+//      [pathname] ["?" search] ["#" hash]
+//
+// Unlike a constructor string, a shorthand never needs a base URL.  The
+// components it does not write match anything, while the ones it writes may
+// be empty, so `/about` only constrains the pathname and `/about?#` also
+// requires an empty search and hash.  Separators are found the same way the
+// constructor string parser finds them: they are never part of a `{ }` group
+// or regexp group, escaping them with a backslash still makes them
+// separators, and a `?` right after a group is its modifier.  So
+// `/users/:id?` has an optional group where `/users/:id\?tab=1` has a
+// search, and `user\:pass@` is needed for a password that would otherwise
+// be read as a group name.
 
-    i = str.indexOf('/');
-    hostname = str.substring(0, i);
-    str = str.substring(i + 1);
+const COMPONENTS: URLPatternComponent[] = [
+  'protocol',
+  'username',
+  'password',
+  'hostname',
+  'port',
+  'pathname',
+  'search',
+  'hash',
+];
+
+function fail(shorthand: string, reason: string, index: number): never {
+  throw new URLPatternSyntaxError(reason, shorthand, index, undefined,
+    `Invalid shorthand '${shorthand}'. ${reason}${formatCaret(shorthand, index)}`);
+}
+
+function isSeparator(token: LexToken, value: string): boolean {
+  return token.value === value &&
+    (token.type === 'CHAR' || token.type === 'ESCAPED_CHAR' || token.type === 'INVALID_CHAR');
+}
+
+function followsGroup(token: LexToken | undefined): boolean {
+  return !!token && (token.type === 'NAME' || token.type === 'PATTERN' ||
+                     token.type === 'CLOSE' || token.type === 'ASTERISK');
+}
+
+function isSearchPrefix(tokens: LexToken[], i: number): boolean {
+  return isSeparator(tokens[i], '?') ||
+    (tokens[i].type === 'MODIFIER' && tokens[i].value === '?' && !followsGroup(tokens[i - 1]));
+}
+
+// Parse a shorthand into a `URLPatternInit` holding the components it
+// writes.  Mistakes in the shorthand, including invalid component patterns,
+// throw a `URLPatternSyntaxError` positioned in the shorthand.
+export function parseShorthand(shorthand: string): URLPatternInit {
+  const tokens = lexer(shorthand, /*lenient=*/true);
+
+  // Only the tokens outside `{ }` groups may be separators.
+  const separators: boolean[] = [];
+  let groupStart = -1;
+  tokens.forEach((token, i) => {
+    if (token.type === 'OPEN') {
+      if (groupStart !== -1) {
+        fail(shorthand, `Nested groups are not allowed.`, token.index);
+      }
+      groupStart = token.index;
+    } else if (token.type === 'CLOSE') {
+      if (groupStart === -1) {
+        fail(shorthand, `Unexpected '}' outside of a group.`, token.index);
+      }
+      groupStart = -1;
+    }
+    separators[i] = groupStart === -1;
+  });
+  if (groupStart !== -1) {
+    fail(shorthand, `Unterminated group.`, groupStart);
   }
+  const end = tokens.length - 1;
 
-  i = str.indexOf('#');
-  if (i !== -1) {
-    hash = str.substring(i + 1);
-    str = str.substring(0, i);
+  const result: URLPatternInit = {};
+  const offsets: {[component: string]: number} = {};
+  const set = (component: URLPatternComponent, start: number, stop: number) => {
+    result[component] = shorthand.substring(tokens[start].index, tokens[stop].index);
+    offsets[component] = tokens[start].index;
+  };
+  // Returns the first separator in `[start, stop)` matching `test`, or `stop`.
+  const find = (start: number, stop: number, test: (i: number) => boolean) => {
+    let i = start;
+    while (i < stop && !(separators[i] && test(i))) {
+      ++i;
+    }
+    return i;
+  };
+  const isPathEnd = (i: number) => isSearchPrefix(tokens, i) || isSeparator(tokens[i], '#');
+
+  // A shorthand is absolute if a `://` comes before anything else that ends
+  // the pathname.
+  let i = 0;
+  const schemeEnd = find(0, end, (j) => isPathEnd(j) || isSeparator(tokens[j], '/') ||
+    (isSeparator(tokens[j], ':') && isSeparator(tokens[j + 1], '/') &&
+     isSeparator(tokens[j + 2], '/')));
+  if (isSeparator(tokens[schemeEnd], ':')) {
+    if (schemeEnd === 0) {
+      fail(shorthand, `Missing protocol before '://'.`, 0);
+    }
+    set('protocol', 0, schemeEnd);
+
+    const authorityStart = schemeEnd + 3;
+    const authorityEnd = find(authorityStart, end, (j) => isPathEnd(j) || isSeparator(tokens[j], '/'));
+    let hostStart = authorityStart;
+    const at = find(authorityStart, authorityEnd, (j) => isSeparator(tokens[j], '@'));
+    if (at !== authorityEnd) {
+      const extra = find(at + 1, authorityEnd, (j) => isSeparator(tokens[j], '@'));
+      if (extra !== authorityEnd) {
+        fail(shorthand, `Unexpected '@' after the username and password.`, tokens[extra].index);
+      }
+      const colon = find(authorityStart, at, (j) => isSeparator(tokens[j], ':'));
+      set('username', authorityStart, colon);
+      if (colon !== at) {
+        set('password', colon + 1, at);
+      }
+      hostStart = at + 1;
+    }
+
+    // The `:` of an IPv6 address does not start the port.
+    let brackets = 0;
+    const colon = find(hostStart, authorityEnd, (j) => {
+      if (isSeparator(tokens[j], '[')) {
+        ++brackets;
+      } else if (isSeparator(tokens[j], ']')) {
+        --brackets;
+      }
+      return !brackets && isSeparator(tokens[j], ':');
+    });
+    set('hostname', hostStart, colon);
+    if (colon !== authorityEnd) {
+      set('port', colon + 1, authorityEnd);
+    }
+    i = authorityEnd;
   }
 
-  str = str
-    .replace(/(:\w+)\?/g, (_, name) => name + '§')
-    .replace(/\*\?/g, '*§')
-    .replace(/\)\?/g, ')§');
-  i = str.indexOf('?');
+  const pathEnd = find(i, end, isPathEnd);
+  if (pathEnd > i) {
+    set('pathname', i, pathEnd);
+  }
+  i = pathEnd;
+  if (i !== end && isSearchPrefix(tokens, i)) {
+    const searchEnd = find(i + 1, end, (j) => isSeparator(tokens[j], '#'));
+    set('search', i + 1, searchEnd);
+    i = searchEnd;
+  }
+  if (i !== end) {
+    set('hash', i + 1, end);
+  }
 
-  if (i !== -1) {
-    pathname = str.substring(0, i).replace('§', '?');
-    search = str.substring(i + 1).replace('§', '?');
-  } else {
-    pathname = str.replace('§', '?');
+  // Report mistakes in the component patterns at their position in the
+  // shorthand.
+  for (const component of Object.keys(offsets) as URLPatternComponent[]) {
+    try {
+      lexer(result[component] as string);
+    } catch (err: any) {
+      if (err instanceof URLPatternSyntaxError) {
+        fail(shorthand, `Invalid ${component} pattern. ${err.reason}`, offsets[component] + err.index);
+      }
+      throw err;
+    }
   }
+  return result;
+}
 
-  return { protocol, hostname, pathname, search, hash };
-}
\ No newline at end of file
+// Returns the separator to write before `text`, escaped if `text` would
+// otherwise turn it into a group name.  Also used to write constructor
+// strings, which find separators the same way.
+export function writeSeparator(value: string, text: string): string {
+  return lexer(value + text, /*lenient=*/true)[0].type === 'NAME' ? `\\${value}` : value;
+}
+
+// Returns the `?` to write after `text` to start the search, escaped if it
+// would otherwise be the modifier of a group ending `text`.
+export function writeSearchSeparator(text: string): string {
+  const tokens = lexer(text, /*lenient=*/true);
+  return followsGroup(tokens[tokens.length - 2]) ? '\\?' : '?';
+}
+
+// Write a pattern as a shorthand that `parseShorthand()` turns back into the
+// same component patterns.  Patterns using options or `searchParams`, and
+// the few whose components a shorthand cannot separate, such as an empty
+// pathname, throw a `TypeError`.
+export function toShorthand(pattern: URLPattern): string {
+  const snapshot = pattern.toJSON();
+  if (snapshot.ignoreCase || snapshot.match === 'prefix' || snapshot.searchParams) {
+    throw new TypeError(`Failed to execute 'toShorthand': a shorthand cannot express the options or searchParams of the pattern.`);
+  }
+
+  let shorthand = '';
+  if (COMPONENTS.slice(0, 5).some((component) => pattern[component] !== '*')) {
+    shorthand += `${pattern.protocol}://`;
+    if (pattern.username !== '*' || pattern.password !== '*') {
+      shorthand += pattern.username;
+      if (pattern.password !== '*') {
+        shorthand += writeSeparator(':', pattern.password) + pattern.password;
+      }
+      shorthand += '@';
+    }
+    shorthand += pattern.hostname;
+    if (pattern.port !== '*') {
+      shorthand += writeSeparator(':', pattern.port) + pattern.port;
+    }
+  }
+  if (pattern.pathname !== '*') {
+    shorthand += pattern.pathname;
+  }
+  if (pattern.search !== '*') {
+    shorthand += writeSearchSeparator(shorthand) + pattern.search;
+  }
+  if (pattern.hash !== '*') {
+    shorthand += `#${pattern.hash}`;
+  }
+
+  let init: URLPatternInit | undefined;
+  try {
+    init = parseShorthand(shorthand);
+  } catch {
+    // Checked below.
+  }
+  for (const component of COMPONENTS) {
+    if (!init || (init[component] ?? '*') !== pattern[component]) {
+      throw new TypeError(`Failed to execute 'toShorthand': the ${component} pattern '${pattern[component]}' cannot be written as a shorthand.`);
+    }
+  }
+  return shorthand;
+}
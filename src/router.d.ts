@@ -0,0 +1,8 @@
+export {
+  URLPatternRouter,
+  URLPatternRouterOptions,
+  URLPatternHandler,
+  URLPatternMiddleware,
+  NodeRequestLike,
+  NodeResponseLike,
+} from "./types.js";
@@ -1,11 +1,54 @@
+// These declarations infer group names with template literal types and
+// `infer X extends` constraints, which need TypeScript 4.7 or later.
+
 export type URLPatternInput = URLPatternInit | string;
 
-export declare class URLPattern {
-  constructor(init?: URLPatternInput, baseURL?: string);
+// An object exposing parsed URL components, such as a `URL` instance or a
+// `Location` object.
+export interface URLLike {
+  href: string;
+  protocol: string;
+  username?: string;
+  password?: string;
+  hostname: string;
+  port: string;
+  pathname: string;
+  search: string;
+  hash: string;
+}
+
+// An object with a URL string, such as a Fetch `Request`.
+export interface RequestLike {
+  url: string;
+  method: string;
+}
+
+export type URLPatternMatchInput = URLPatternInput | URLLike | RequestLike;
+
+// A `URLPatternInit` whose component patterns are the string literal type
+// `S`.  This only exists so that the `URLPattern` constructor infers literal
+// component patterns instead of widening them to `string`.
+type URLPatternLiteralInit<S extends string> = {
+  [component in URLPatternComponent | "baseURL"]?: S;
+} & { searchParams?: URLPatternSearchParamsInit };
+
+export interface URLPattern<Groups extends URLPatternResultGroups = URLPatternLooseResultGroups> {
+  test(input?: URLPatternMatchInput, baseURL?: string | URLLike): boolean;
+
+  exec(input?: URLPatternMatchInput, baseURL?: string | URLLike): URLPatternResult<Groups> | null;
 
-  test(input?: URLPatternInput, baseURL?: string): boolean;
+  execDecoded(input?: URLPatternMatchInput, baseURL?: string | URLLike): URLPatternDecodedResult | null;
 
-  exec(input?: URLPatternInput, baseURL?: string): URLPatternResult | null;
+  generate(component: "href", groups?: URLPatternHrefGroupValues): string;
+  generate(component: URLPatternComponent, groups?: URLPatternGroupValues): string;
+
+  toJSON(): URLPatternSnapshot;
+
+  toString(): string;
+
+  readonly canonicalKey: string;
+
+  isSubsetOf(other: URLPattern): boolean;
 
   readonly protocol: string;
   readonly username: string;
@@ -15,8 +58,209 @@ export declare class URLPattern {
   readonly pathname: string;
   readonly search: string;
   readonly hash: string;
+  readonly searchParams: URLPatternSearchParamsInit | undefined;
+  readonly hasRegExpGroups: boolean;
+}
+
+// The constructor infers the group names of each component from string
+// literal patterns, e.g. `new URLPattern({ pathname: '/:id' })` is a
+// `URLPattern` whose `exec()` result has `pathname.groups.id`.  `<type>`
+// after a group name only types the group when the options enable typed
+// groups.
+export interface URLPatternConstructor {
+  new <
+    Init extends URLPatternLiteralInit<S> | URLPatternInput = URLPatternInput,
+    S extends string = string,
+    Options extends URLPatternOptions = {}
+  >(
+    init?: Init,
+    baseURL?: string,
+    options?: Options
+  ): URLPattern<URLPatternInitGroups<Init, TypedGroupsEnabled<Options>>>;
+  new <
+    Init extends URLPatternLiteralInit<S> | URLPatternInput = URLPatternInput,
+    S extends string = string,
+    Options extends URLPatternOptions = {}
+  >(
+    init?: Init,
+    options?: Options
+  ): URLPattern<URLPatternInitGroups<Init, TypedGroupsEnabled<Options>>>;
+  fromJSON(snapshot: URLPatternSnapshot | string): URLPattern;
+  defineType(name: string, definition: URLPatternParamType): void;
+  intersects(left: URLPattern, right: URLPattern): boolean;
+  equals(left: URLPattern, right: URLPattern, options?: URLPatternEqualsOptions): boolean;
+  compareComponent(component: URLPatternComponent, left: URLPattern, right: URLPattern): number;
+  analyze(pattern: URLPattern): URLPatternRegExpWarning[];
+  setURLParser(parser: URLPatternURLParser): void;
+  prototype: URLPattern;
+}
+
+export declare const URLPattern: URLPatternConstructor;
+
+// Component values are defaults for init and string entries, and are also
+// required of `URLPattern` entries.
+export interface URLPatternListOptions extends URLPatternInit {
+  sort?: boolean;
+  index?: boolean;
+}
+
+// `index` is the position of the matching pattern in the constructor list.
+export interface URLPatternListResult extends URLPatternResult {
+  index: number;
+  pattern: URLPattern;
+}
+
+export declare class URLPatternList {
+  constructor(list: Array<URLPattern | URLPatternInit | string>, options?: URLPatternListOptions);
+
+  test(input?: URLPatternMatchInput, baseURL?: string | URLLike): boolean;
+
+  exec(input?: URLPatternMatchInput, baseURL?: string | URLLike): URLPatternListResult | null;
+
+  execAll(input?: URLPatternMatchInput, baseURL?: string | URLLike): URLPatternListResult[];
+
+  findConflicts(): URLPatternConflict[];
+}
+
+export interface URLPatternMapOptions {
+  sort?: boolean;
+  index?: boolean;
+}
+
+export interface URLPatternMapEntry<T> {
+  id: number;
+  pattern: URLPattern;
+  value: T;
+}
+
+export interface URLPatternMapMatch<T> extends URLPatternMapEntry<T> {
+  result: URLPatternResult;
+}
+
+// Entry ids stay valid until the entry is deleted.  Entries match and
+// iterate in insertion order, or by specificity with the `sort` option.
+export declare class URLPatternMap<T> implements Iterable<URLPatternMapEntry<T>> {
+  constructor(entries?: Iterable<[URLPattern | URLPatternInit | string, T]>, options?: URLPatternMapOptions);
+
+  readonly size: number;
+
+  set(pattern: URLPattern | URLPatternInit | string, value: T): number;
+
+  has(id: number): boolean;
+
+  delete(id: number): boolean;
+
+  clear(): void;
+
+  get(input?: URLPatternMatchInput, baseURL?: string | URLLike): URLPatternMapMatch<T> | undefined;
+
+  getAll(input?: URLPatternMatchInput, baseURL?: string | URLLike): Array<URLPatternMapMatch<T>>;
+
+  [Symbol.iterator](): IterableIterator<URLPatternMapEntry<T>>;
+
+  values(): IterableIterator<T>;
+}
+
+export type URLPatternHandler =
+  (request: Request, result: URLPatternResult) => Response | Promise<Response>;
+
+export type URLPatternMiddleware =
+  (request: Request, next: () => Promise<Response>) => Response | Promise<Response>;
+
+export interface URLPatternRouterOptions {
+  notFound?: (request: Request) => Response | Promise<Response>;
+}
+
+// The parts of `node:http` requests and responses used by the adapter.
+export interface NodeRequestLike extends AsyncIterable<Uint8Array | string> {
+  method?: string;
+  url?: string;
+  headers: { [name: string]: string | string[] | undefined };
+  socket?: { encrypted?: boolean };
+}
+
+export interface NodeResponseLike {
+  readonly headersSent: boolean;
+  writeHead(statusCode: number, headers: { [name: string]: string | string[] }): unknown;
+  writeHead(statusCode: number, statusMessage: string, headers: { [name: string]: string | string[] }): unknown;
+  write(chunk: Uint8Array): boolean;
+  end(): unknown;
+  once(event: "drain", listener: () => void): unknown;
+  destroy(error?: Error): unknown;
+}
+
+// Routes and mounted routers are tried in the order they were added.  String
+// patterns are pathname patterns.
+export declare class URLPatternRouter {
+  constructor(options?: URLPatternRouterOptions);
+
+  add(method: string, pattern: URLPattern | URLPatternInit | string, handler: URLPatternHandler): this;
+
+  get(pattern: URLPattern | URLPatternInit | string, handler: URLPatternHandler): this;
+
+  head(pattern: URLPattern | URLPatternInit | string, handler: URLPatternHandler): this;
+
+  post(pattern: URLPattern | URLPatternInit | string, handler: URLPatternHandler): this;
+
+  put(pattern: URLPattern | URLPatternInit | string, handler: URLPatternHandler): this;
+
+  patch(pattern: URLPattern | URLPatternInit | string, handler: URLPatternHandler): this;
+
+  delete(pattern: URLPattern | URLPatternInit | string, handler: URLPatternHandler): this;
+
+  options(pattern: URLPattern | URLPatternInit | string, handler: URLPatternHandler): this;
+
+  all(pattern: URLPattern | URLPatternInit | string, handler: URLPatternHandler): this;
+
+  use(middleware: URLPatternMiddleware): this;
+
+  mount(prefix: string, router: URLPatternRouter): this;
+
+  handle(request: Request): Promise<Response>;
+
+  toNodeListener(): (request: NodeRequestLike, response: NodeResponseLike) => Promise<void>;
+}
+
+export interface URLPatternConflict {
+  type: "shadowed" | "ambiguous";
+  index: number;
+  otherIndex: number;
+  example: string;
+}
+
+export declare class URLPatternSyntaxError extends TypeError {
+  readonly reason: string;
+  readonly pattern: string;
+  readonly index: number;
+  readonly token: string;
+  readonly component?: URLPatternComponent;
+  readonly input?: string;
+  readonly inputIndex?: number;
+
+  constructor(reason: string, pattern: string, index: number, token?: string, message?: string);
+
+  withComponent(component: URLPatternComponent, input?: string, inputIndex?: number): URLPatternSyntaxError;
 }
 
+// Thrown for patterns breaking the policy options of the constructor.
+export declare class URLPatternPolicyError extends TypeError {
+  readonly rule: URLPatternPolicyRule;
+  readonly pattern: string;
+  readonly index?: number;
+  readonly component?: URLPatternComponent;
+  readonly searchParam?: string;
+
+  constructor(rule: URLPatternPolicyRule, reason: string, pattern: string, index?: number,
+              component?: URLPatternComponent, searchParam?: string);
+}
+
+// Shorthands write components in URL order, e.g.
+// `https://example.com:8080/users/:id?tab=:tab#top`, and leave the components
+// they do not write matching anything.
+export declare function parseShorthand(shorthand: string): URLPatternInit;
+
+export declare function toShorthand(pattern: URLPattern): string;
+
 interface URLPatternInit {
   baseURL?: string;
   username?: string;
@@ -27,23 +271,475 @@ interface URLPatternInit {
   pathname?: string;
   search?: string;
   hash?: string;
+  searchParams?: URLPatternSearchParamsInit;
+}
+
+export interface URLPatternSearchParamsInit {
+  [name: string]: string;
+}
+
+export interface URLPatternOptions {
+  ignoreCase?: boolean;
+  match?: "exact" | "prefix";
+  allowUnknownSearchParams?: boolean;
+  typedGroups?: boolean;
+  types?: { [group: string]: string };
+  validators?: { [group: string]: URLPatternValidator };
+  rejectUnsafeRegExps?: boolean;
+  unicodeHostnameGroups?: boolean;
+  unicodeRegExps?: boolean;
+  allowRegExpGroups?: boolean;
+  maxPatternLength?: number;
+  maxGroups?: number;
+  allowedComponents?: URLPatternComponent[];
+}
+
+export type URLPatternPolicyRule =
+  "allowRegExpGroups" | "maxPatternLength" | "maxGroups" | "allowedComponents";
+
+export type URLPatternURLParser = "auto" | "native" | "builtin";
+
+export type URLPatternValidator = (value: unknown, component: URLPatternComponent) => boolean;
+
+export interface URLPatternEqualsOptions {
+  ignoreGroupNames?: boolean;
+}
+
+export type URLPatternRegExpWarningKind =
+  "nested-quantifier" | "overlapping-alternation" | "overlapping-quantifiers" |
+  "overlapping-wildcards";
+
+// `group` is the group holding the regexp, or the first of the adjacent
+// groups.  `searchParam` is only set for `searchParams` entries.
+export interface URLPatternRegExpWarning {
+  kind: URLPatternRegExpWarningKind;
+  component: URLPatternComponent;
+  searchParam?: string;
+  group: string | number;
+  message: string;
+}
+
+export interface URLPatternParamType {
+  pattern: string;
+  parse?: (value: string) => unknown;
+}
+
+// The values of `:name<type>` groups by type name.  Augment this interface
+// to type the groups of types added with `URLPattern.defineType()`.
+export interface URLPatternParamTypeMap {
+  int: number;
+  uuid: string;
+  slug: string;
 }
 
-export interface URLPatternResult {
-  inputs: [URLPatternInput];
-  protocol: URLPatternComponentResult;
-  username: URLPatternComponentResult;
-  password: URLPatternComponentResult;
-  hostname: URLPatternComponentResult;
-  port: URLPatternComponentResult;
-  pathname: URLPatternComponentResult;
-  search: URLPatternComponentResult;
-  hash: URLPatternComponentResult;
+export interface URLPatternResult<Groups extends URLPatternResultGroups = URLPatternLooseResultGroups> {
+  inputs: [URLPatternMatchInput] | [URLPatternMatchInput, string | URLLike];
+  protocol: URLPatternComponentResult<Groups["protocol"]>;
+  username: URLPatternComponentResult<Groups["username"]>;
+  password: URLPatternComponentResult<Groups["password"]>;
+  hostname: URLPatternComponentResult<Groups["hostname"]>;
+  port: URLPatternComponentResult<Groups["port"]>;
+  pathname: URLPatternComponentResult<Groups["pathname"]>;
+  search: URLPatternComponentResult<Groups["search"]>;
+  hash: URLPatternComponentResult<Groups["hash"]>;
+  // Only set for patterns constructed with `searchParams`.
+  searchParams?: { [name: string]: URLPatternSearchParamResult };
 }
 
-export interface URLPatternComponentResult {
+export interface URLPatternComponentResult<Groups = URLPatternLooseGroups> {
   input: string;
-  groups: {
-    [key: string]: string | undefined;
+  groups: Groups;
+  // Only set for the pathname of a pattern constructed with `match: "prefix"`.
+  rest?: string;
+}
+
+// Repeated groups are arrays of their decoded repetitions.
+export interface URLPatternDecodedGroups {
+  [key: string]: string | string[] | undefined;
+}
+
+export interface URLPatternDecodedResult {
+  inputs: [URLPatternMatchInput] | [URLPatternMatchInput, string | URLLike];
+  protocol: URLPatternComponentResult<URLPatternDecodedGroups>;
+  username: URLPatternComponentResult<URLPatternDecodedGroups>;
+  password: URLPatternComponentResult<URLPatternDecodedGroups>;
+  hostname: URLPatternComponentResult<URLPatternDecodedGroups>;
+  port: URLPatternComponentResult<URLPatternDecodedGroups>;
+  pathname: URLPatternComponentResult<URLPatternDecodedGroups>;
+  search: URLPatternComponentResult<URLPatternDecodedGroups>;
+  hash: URLPatternComponentResult<URLPatternDecodedGroups>;
+  searchParams?: { [name: string]: URLPatternSearchParamResult };
+  // The named groups of every component.
+  params: URLPatternDecodedGroups;
+}
+
+// `input` is the first value of the parameter, or empty if it was absent.
+export interface URLPatternSearchParamResult<Groups = URLPatternLooseGroups>
+  extends URLPatternComponentResult<Groups> {
+  values: string[];
+}
+
+// The groups of a component whose pattern is not known at compile time.
+export interface URLPatternLooseGroups {
+  [key: string]: string | undefined;
+}
+
+// Whether constructor options make `<type>` after a group name a type.
+type TypedGroupsEnabled<Options> =
+  Options extends { typedGroups: true } ? true : Options extends { types: object } ? true : false;
+
+// The groups of every component of a pattern constructed from `Init`, with
+// `<type>` after group names read as types when `Typed` is true.
+export type URLPatternInitGroups<Init, Typed extends boolean = false> =
+  URLPatternInput extends Init
+    ? URLPatternLooseResultGroups
+    : { [C in URLPatternComponent]: URLPatternGroups<Init, C, Typed> };
+
+export type URLPatternResultGroups = {
+  [C in URLPatternComponent]: object;
+};
+
+export type URLPatternLooseResultGroups = {
+  [C in URLPatternComponent]: URLPatternLooseGroups;
+};
+
+// The groups produced for `component` by a pattern constructed from `Init`.
+// Both `URLPatternInit` dictionaries and constructor strings are understood
+// as long as their patterns are string literal types.  Any other input falls
+// back to `URLPatternLooseGroups`.
+export type URLPatternGroups<Init, C extends URLPatternComponent, Typed extends boolean = false> =
+  [Init] extends [string]
+    ? string extends Init
+      ? URLPatternLooseGroups
+      : InitComponentGroups<ParseConstructorString<Init>, C, Typed>
+    : [Init] extends [object]
+      ? InitComponentGroups<Init, C, Typed>
+      : URLPatternLooseGroups;
+
+// The groups of a single component pattern string; e.g.
+// `'/api/:product/:param?'` becomes
+// `{ product: string; param: string | undefined }`.
+export type URLPatternComponentGroups<P extends string, Typed extends boolean = false> =
+  string extends P ? URLPatternLooseGroups : EntriesToGroups<ScanGroups<P, [], [], false, Typed>[0]>;
+
+// Components missing from the init dictionary are inherited from the
+// baseURL when one is given, and otherwise default to the `*` wildcard.
+type InitComponentGroups<Init, C extends URLPatternComponent, Typed extends boolean> =
+  C extends keyof Init
+    ? Init[C] extends string
+      ? URLPatternComponentGroups<Init[C], Typed>
+      : URLPatternLooseGroups
+    : [Init] extends [{ baseURL: string }]
+      ? {}
+      : URLPatternComponentGroups<"*">;
+
+// The type-level group scanner below follows the path-to-regexp `lexer()`
+// and `parse()` rules.  Only ASCII group names are recognized; a name using
+// other identifier characters is truncated at the first such character.
+type Letter =
+  | "a" | "b" | "c" | "d" | "e" | "f" | "g" | "h" | "i" | "j" | "k" | "l" | "m"
+  | "n" | "o" | "p" | "q" | "r" | "s" | "t" | "u" | "v" | "w" | "x" | "y" | "z";
+type Digit = "0" | "1" | "2" | "3" | "4" | "5" | "6" | "7" | "8" | "9";
+type IdentifierStart = Letter | Uppercase<Letter> | "_" | "$";
+type IdentifierPart = IdentifierStart | Digit;
+
+// A group found in a component pattern: its name, whether it may be absent
+// from a match because of a `?` or `*` modifier, and its value.
+type GroupEntry = [name: string | number, optional: boolean, value: unknown];
+
+type EntriesToGroups<E extends GroupEntry[]> = {
+  [Entry in E[number] as Entry[0]]: Entry[1] extends true ? Entry[2] | undefined : Entry[2];
+};
+
+// The value of a `:name<Type>` group.  Numeric ranges are numbers and types
+// missing from `URLPatternParamTypeMap` are unknown.  A repeated group whose
+// type converts its values is an array of them.
+type ParamTypeValue<Type extends string, Modifier extends string> =
+  ParamTypeScalar<Type> extends infer Value
+    ? Modifier extends `${"+" | "*"}${string}`
+      ? Value extends string ? string : Value[]
+      : Value
+    : never;
+
+type ParamTypeScalar<Type extends string> =
+  Type extends keyof URLPatternParamTypeMap
+    ? URLPatternParamTypeMap[Type]
+    : Type extends `${bigint}-${bigint}`
+      ? number
+      : unknown;
+
+// Returns `[name, rest]` for the identifier at the start of `S`.
+type ReadName<S extends string, Name extends string = ""> =
+  S extends `${infer C}${infer Rest}`
+    ? C extends IdentifierPart
+      ? ReadName<Rest, `${Name}${C}`>
+      : [Name, S]
+    : [Name, S];
+
+// Returns `[regexp, rest]` for a regexp group whose opening `(` has already
+// been consumed.
+type ReadRegExp<S extends string, RegExp extends string = "", Depth extends unknown[] = []> =
+  S extends `\\${infer C}${infer Rest}`
+    ? ReadRegExp<Rest, `${RegExp}\\${C}`, Depth>
+    : S extends `(${infer Rest}`
+      ? ReadRegExp<Rest, `${RegExp}(`, [...Depth, unknown]>
+      : S extends `)${infer Rest}`
+        ? Depth extends [unknown, ...infer Outer]
+          ? ReadRegExp<Rest, `${RegExp})`, Outer>
+          : [`(${RegExp})`, Rest]
+        : S extends `${infer C}${infer Rest}`
+          ? ReadRegExp<Rest, `${RegExp}${C}`, Depth>
+          : [`(${RegExp}`, S];
+
+// Returns `[group, rest]` for a `{ ... }` grouping whose opening `{` has
+// already been consumed.
+type ReadBrace<S extends string, Group extends string = "{"> =
+  S extends `\\${infer C}${infer Rest}`
+    ? ReadBrace<Rest, `${Group}\\${C}`>
+    : S extends `(${infer Rest}`
+      ? ReadBrace<ReadRegExp<Rest>[1], `${Group}${ReadRegExp<Rest>[0]}`>
+      : S extends `}${infer Rest}`
+        ? [`${Group}}`, Rest]
+        : S extends `${infer C}${infer Rest}`
+          ? ReadBrace<Rest, `${Group}${C}`>
+          : [Group, S];
+
+type IsOptional<S extends string> = S extends `${"?" | "*"}${string}` ? true : false;
+
+type SkipModifier<S extends string> = S extends `${"?" | "*" | "+"}${infer Rest}` ? Rest : S;
+
+type MakeOptional<E extends GroupEntry[]> =
+  E extends [infer Entry extends GroupEntry, ...infer Rest extends GroupEntry[]]
+    ? [[Entry[0], true, Entry[2]], ...MakeOptional<Rest>]
+    : [];
+
+// Returns `[entries, rest, counter]`.  `Counter` tracks the next numeric
+// name given to anonymous `(...)` and `*` groups.  When `InBrace` is true
+// scanning stops after the closing `}`.  `Typed` is whether `<type>` after a
+// group name is a type.
+type ScanGroups<
+  S extends string,
+  Acc extends GroupEntry[] = [],
+  Counter extends unknown[] = [],
+  InBrace extends boolean = false,
+  Typed extends boolean = false
+> =
+  S extends `\\${string}${infer Rest}`
+    ? ScanGroups<Rest, Acc, Counter, InBrace, Typed>
+    : S extends `}${infer Rest}`
+      ? InBrace extends true
+        ? [Acc, Rest, Counter]
+        : ScanGroups<Rest, Acc, Counter, InBrace, Typed>
+      : S extends `{${infer Rest}`
+        ? ScanBraceGroups<ScanGroups<Rest, [], Counter, true, Typed>, Acc, InBrace, Typed>
+        : S extends `:${infer Rest}`
+          ? ScanNamedGroup<ReadName<Rest>, Acc, Counter, InBrace, Typed>
+          : S extends `(${infer Rest}`
+            ? AddGroup<ReadRegExp<Rest>[1], Counter["length"], Acc, [...Counter, unknown], InBrace, Typed>
+            : S extends `*${infer Rest}`
+              ? AddGroup<Rest, Counter["length"], Acc, [...Counter, unknown], InBrace, Typed>
+              : S extends `${string}${infer Rest}`
+                ? ScanGroups<Rest, Acc, Counter, InBrace, Typed>
+                : [Acc, "", Counter];
+
+type AddGroup<
+  S extends string,
+  Name extends string | number,
+  Acc extends GroupEntry[],
+  Counter extends unknown[],
+  InBrace extends boolean,
+  Typed extends boolean,
+  Value = string
+> = ScanGroups<SkipModifier<S>, [...Acc, [Name, IsOptional<S>, Value]], Counter, InBrace, Typed>;
+
+type ScanNamedGroup<
+  Read extends [string, string],
+  Acc extends GroupEntry[],
+  Counter extends unknown[],
+  InBrace extends boolean,
+  Typed extends boolean
+> =
+  Read[0] extends ""
+    ? ScanGroups<Read[1], Acc, Counter, InBrace, Typed>
+    : Read[1] extends `(${infer Rest}`
+      ? AddGroup<ReadRegExp<Rest>[1], Read[0], Acc, Counter, InBrace, Typed>
+      : [Typed, Read[1]] extends [true, `<${infer Type}>${infer Rest}`]
+        ? AddGroup<Rest, Read[0], Acc, Counter, InBrace, Typed, ParamTypeValue<Type, Rest>>
+        : AddGroup<Read[1], Read[0], Acc, Counter, InBrace, Typed>;
+
+type ScanBraceGroups<
+  Inner extends [GroupEntry[], string, unknown[]],
+  Acc extends GroupEntry[],
+  InBrace extends boolean,
+  Typed extends boolean
+> = ScanGroups<
+  SkipModifier<Inner[1]>,
+  [...Acc, ...(IsOptional<Inner[1]> extends true ? MakeOptional<Inner[0]> : Inner[0])],
+  Inner[2],
+  InBrace,
+  Typed
+>;
+
+// The constructor string parser below mirrors the `Parser` state machine.
+// It splits the string into component patterns which are then scanned for
+// groups like a `URLPatternInit`.
+type SpecialScheme = "ftp" | "file" | "http" | "https" | "ws" | "wss";
+
+// Returns `[component, separator, rest]` where `component` is the pattern
+// text up to the first unescaped `Separators` character outside of any group.
+// A `?` directly following a group is a modifier rather than a separator.
+// `IPv6` makes `:` within `[ ]` part of the component, as for hostnames.
+type ReadComponent<
+  S extends string,
+  Separators extends string,
+  Component extends string = "",
+  AfterGroup extends boolean = false,
+  IPv6 extends boolean = false
+> =
+  S extends `\\${infer C}${infer Rest}`
+    ? C extends Separators
+      ? [Component, C, Rest]
+      : ReadComponent<Rest, Separators, `${Component}\\${C}`, false, IPv6>
+    : S extends `{${infer Rest}`
+      ? ReadComponent<ReadBrace<Rest>[1], Separators, `${Component}${ReadBrace<Rest>[0]}`, true, IPv6>
+      : S extends `(${infer Rest}`
+        ? ReadComponent<ReadRegExp<Rest>[1], Separators, `${Component}${ReadRegExp<Rest>[0]}`, true, IPv6>
+        : S extends `:${infer C}${infer Rest}`
+          ? C extends IdentifierStart
+            ? ReadComponent<
+                ReadName<`${C}${Rest}`>[1],
+                Separators,
+                `${Component}:${ReadName<`${C}${Rest}`>[0]}`,
+                true,
+                IPv6
+              >
+            : ":" extends Separators
+              ? IPv6 extends true
+                ? ReadComponent<`${C}${Rest}`, Separators, `${Component}:`, false, IPv6>
+                : [Component, ":", `${C}${Rest}`]
+              : ReadComponent<`${C}${Rest}`, Separators, `${Component}:`, false, IPv6>
+          : S extends `*${infer Rest}`
+            ? ReadComponent<Rest, Separators, `${Component}*`, true, IPv6>
+            : S extends `?${infer Rest}`
+              ? AfterGroup extends false
+                ? "?" extends Separators
+                  ? [Component, "?", Rest]
+                  : ReadComponent<Rest, Separators, `${Component}?`, false, IPv6>
+                : ReadComponent<Rest, Separators, `${Component}?`, false, IPv6>
+              : S extends `${infer C}${infer Rest}`
+                ? C extends Separators
+                  ? IPv6 extends true
+                    ? ReadComponent<Rest, Separators, `${Component}${C}`, false, IPv6>
+                    : [Component, C, Rest]
+                  : ReadComponent<
+                      Rest,
+                      Separators,
+                      `${Component}${C}`,
+                      false,
+                      C extends "[" ? true : C extends "]" ? false : IPv6
+                    >
+                : [Component, "", ""];
+
+type ParseConstructorString<S extends string> =
+  ReadComponent<S, ":"> extends [infer Protocol extends string, ":", infer Rest extends string]
+    ? Rest extends `//${infer Authority}`
+      ? { protocol: Protocol } & ParseAuthority<Authority>
+      : Protocol extends SpecialScheme
+        ? { protocol: Protocol } & ParseAuthority<Rest>
+        : { protocol: Protocol; username: ""; password: ""; hostname: ""; port: "" } &
+            ParsePathname<Rest>
+    : S extends `#${infer Hash}`
+      ? { baseURL: string; hash: Hash }
+      : S extends `?${infer Rest}`
+        ? { baseURL: string } & ParseSearch<Rest>
+        : { baseURL: string } & ParsePathname<S>;
+
+type ParseAuthority<S extends string> =
+  ReadComponent<S, "@" | "/" | "?" | "#"> extends [infer Identity extends string, "@", infer Rest extends string]
+    ? ParseIdentity<Identity> & ParseHostname<Rest>
+    : { username: ""; password: "" } & ParseHostname<S>;
+
+type ParseIdentity<S extends string> =
+  ReadComponent<S, ":"> extends [infer Username extends string, ":", infer Password extends string]
+    ? { username: Username; password: Password }
+    : { username: S; password: "" };
+
+type ParseHostname<S extends string> =
+  ReadComponent<S, ":" | "/" | "?" | "#"> extends [infer Hostname extends string, infer Separator, infer Rest extends string]
+    ? { hostname: Hostname } & (Separator extends ":"
+        ? ParsePort<Rest>
+        : { port: "" } & ParseAfterAuthority<Separator, Rest>)
+    : never;
+
+type ParsePort<S extends string> =
+  ReadComponent<S, "/" | "?" | "#"> extends [infer Port extends string, infer Separator, infer Rest extends string]
+    ? { port: Port } & ParseAfterAuthority<Separator, Rest>
+    : never;
+
+type ParseAfterAuthority<Separator, Rest extends string> =
+  Separator extends "/"
+    ? ParsePathname<`/${Rest}`>
+    : Separator extends "?"
+      ? { pathname: "" } & ParseSearch<Rest>
+      : Separator extends "#"
+        ? { pathname: ""; search: ""; hash: Rest }
+        : { pathname: ""; search: ""; hash: "" };
+
+type ParsePathname<S extends string> =
+  ReadComponent<S, "?" | "#"> extends [infer Pathname extends string, infer Separator, infer Rest extends string]
+    ? { pathname: Pathname } & (Separator extends "?"
+        ? ParseSearch<Rest>
+        : { search: ""; hash: Separator extends "#" ? Rest : "" })
+    : never;
+
+type ParseSearch<S extends string> =
+  ReadComponent<S, "#"> extends [infer Search extends string, infer Separator, infer Rest extends string]
+    ? { search: Search; hash: Separator extends "#" ? Rest : "" }
+    : never;
+
+export interface URLPatternKey {
+  name: string | number;
+  prefix: string;
+  suffix: string;
+  pattern: string;
+  modifier: string;
+}
+
+export interface URLPatternComponentSnapshot {
+  pattern: string;
+  regexp: string;
+  flags: string;
+  tokens: Array<string | URLPatternKey>;
+}
+
+export interface URLPatternSnapshot {
+  version: number;
+  ignoreCase: boolean;
+  match?: "exact" | "prefix";
+  components: {
+    [component in URLPatternComponent]: URLPatternComponentSnapshot;
+  };
+  searchParams?: {
+    [name: string]: URLPatternComponentSnapshot;
   };
+  allowUnknownSearchParams?: boolean;
+  unicodeHostnameGroups?: boolean;
 }
+
+export type URLPatternComponent =
+  | "protocol"
+  | "username"
+  | "password"
+  | "hostname"
+  | "port"
+  | "pathname"
+  | "search"
+  | "hash";
+
+export interface URLPatternGroupValues {
+  [key: string]: string | string[] | undefined;
+}
+
+export type URLPatternHrefGroupValues = {
+  [component in URLPatternComponent]?: URLPatternGroupValues;
+};
@@ -0,0 +1,281 @@
+// Conversion of Unicode hostnames to and from their ASCII `xn--` form, for
+// runtimes whose `URL` cannot do it itself, such as builds with small or no
+// ICU data.  Labels are mapped as UTS #46 does without transitional
+// processing: characters are normalized to NFKC and case folded, ideographic
+// full stops become dots and the default ignorable characters are dropped.
+// The mapping table of UTS #46 is not included, so the characters it
+// disallows are converted rather than rejected.  Labels are then encoded
+// with punycode as described in RFC 3492.
+
+const BASE = 36;
+const T_MIN = 1;
+const T_MAX = 26;
+const SKEW = 38;
+const DAMP = 700;
+const INITIAL_BIAS = 72;
+const INITIAL_N = 0x80;
+const MAX_INT = 0x7FFFFFFF;
+
+const ACE_PREFIX = 'xn--';
+
+// Characters UTS #46 maps to nothing.
+const IGNORED = /[\u00AD\u034F\u180B-\u180F\u200B\u2060\u2064\uFE00-\uFE0F\uFEFF]|\uD82F[\uDCA0-\uDCA3]/g;
+
+// Characters UTS #46 maps to a dot.
+const DOTS = /[\u3002\uFF0E\uFF61]/g;
+
+const NON_ASCII = /[^\x00-\x7F]/;
+
+function adapt(delta: number, points: number, first: boolean): number {
+  delta = first ? Math.floor(delta / DAMP) : delta >> 1;
+  delta += Math.floor(delta / points);
+  let k = 0;
+  while (delta > ((BASE - T_MIN) * T_MAX) >> 1) {
+    delta = Math.floor(delta / (BASE - T_MIN));
+    k += BASE;
+  }
+  return k + Math.floor((BASE - T_MIN + 1) * delta / (delta + SKEW));
+}
+
+function threshold(k: number, bias: number): number {
+  return k <= bias ? T_MIN : k >= bias + T_MAX ? T_MAX : k - bias;
+}
+
+function encodeDigit(digit: number): string {
+  // 0-25 are `a` to `z` and 26-35 are `0` to `9`.
+  return String.fromCharCode(digit < 26 ? 0x61 + digit : 0x16 + digit);
+}
+
+function decodeDigit(code: number): number {
+  if (code >= 0x30 && code <= 0x39) {
+    return code - 0x16;
+  }
+  if (code >= 0x41 && code <= 0x5A) {
+    return code - 0x41;
+  }
+  if (code >= 0x61 && code <= 0x7A) {
+    return code - 0x61;
+  }
+  throw new TypeError(`invalid punycode digit '${String.fromCharCode(code)}'.`);
+}
+
+// Encode a label with punycode, without the `xn--` prefix.
+export function punycodeEncode(input: string): string {
+  const codes = Array.from(input, (char) => char.codePointAt(0)!);
+  let output = '';
+  for (const code of codes) {
+    if (code < 0x80) {
+      output += String.fromCharCode(code);
+    }
+  }
+  const basic = output.length;
+  if (basic) {
+    output += '-';
+  }
+
+  let n = INITIAL_N;
+  let delta = 0;
+  let bias = INITIAL_BIAS;
+  let handled = basic;
+  while (handled < codes.length) {
+    let next = Infinity;
+    for (const code of codes) {
+      if (code >= n && code < next) {
+        next = code;
+      }
+    }
+    delta += (next - n) * (handled + 1);
+    n = next;
+    for (const code of codes) {
+      if (code < n) {
+        ++delta;
+      }
+      if (code !== n) {
+        continue;
+      }
+      let q = delta;
+      for (let k = BASE; ; k += BASE) {
+        const t = threshold(k, bias);
+        if (q < t) {
+          break;
+        }
+        output += encodeDigit(t + (q - t) % (BASE - t));
+        q = Math.floor((q - t) / (BASE - t));
+      }
+      output += encodeDigit(q);
+      bias = adapt(delta, handled + 1, handled === basic);
+      delta = 0;
+      ++handled;
+    }
+    if (delta > MAX_INT) {
+      throw new TypeError(`label '${input}' is too long to encode.`);
+    }
+    ++delta;
+    ++n;
+  }
+  return output;
+}
+
+// Decode a label encoded with punycode, without its `xn--` prefix.
+export function punycodeDecode(input: string): string {
+  const delimiter = input.lastIndexOf('-');
+  const output: number[] = [];
+  for (let i = 0; i < delimiter; ++i) {
+    const code = input.charCodeAt(i);
+    if (code >= 0x80) {
+      throw new TypeError(`invalid punycode '${input}'.`);
+    }
+    output.push(code);
+  }
+
+  let n = INITIAL_N;
+  let bias = INITIAL_BIAS;
+  let i = 0;
+  for (let index = delimiter > 0 ? delimiter + 1 : 0; index < input.length;) {
+    const start = i;
+    let weight = 1;
+    for (let k = BASE; ; k += BASE) {
+      if (index >= input.length) {
+        throw new TypeError(`invalid punycode '${input}'.`);
+      }
+      const digit = decodeDigit(input.charCodeAt(index++));
+      i += digit * weight;
+      const t = threshold(k, bias);
+      if (digit < t) {
+        break;
+      }
+      weight *= BASE - t;
+      if (i > MAX_INT || weight > MAX_INT) {
+        throw new TypeError(`invalid punycode '${input}'.`);
+      }
+    }
+    bias = adapt(i - start, output.length + 1, start === 0);
+    n += Math.floor(i / (output.length + 1));
+    i %= output.length + 1;
+    if (n > 0x10FFFF) {
+      throw new TypeError(`invalid punycode '${input}'.`);
+    }
+    output.splice(i++, 0, n);
+  }
+  return String.fromCodePoint(...output);
+}
+
+// The characters whose UTS #46 case folding differs from lowercasing their
+// uppercase.  ß, ς and ı are kept as they are.
+const FOLDED: {[char: string]: string} = {
+  '\u00DF': '\u00DF',
+  '\u0131': '\u0131',
+  '\u03C2': '\u03C2',
+  '\u03F2': '\u03C3',
+  '\u1E9E': 'ss',
+};
+
+// Case fold a character as UTS #46 does.  Cherokee folds to uppercase.
+function foldChar(char: string): string {
+  if (Object.prototype.hasOwnProperty.call(FOLDED, char)) {
+    return FOLDED[char];
+  }
+  const upper = char.toUpperCase();
+  return /^[\u13A0-\u13F5]$/.test(upper) ? upper : upper.toLowerCase();
+}
+
+// Map a character as UTS #46 does, normalizing it to NFKC and case folding
+// the result.  Characters are mapped one at a time, so a final sigma is
+// kept rather than given the form it takes in running text, but the
+// characters NFKC turns into a final sigma fold to a plain sigma.
+function mapChar(char: string): string {
+  if (char === '\u03C2' || typeof char.normalize !== 'function') {
+    return foldChar(char);
+  }
+  return Array.from(char.normalize('NFKC'), (normalized) =>
+    normalized === '\u03C2' ? '\u03C3' : foldChar(normalized)).join('');
+}
+
+// Map a hostname as UTS #46 does before it is split into labels.
+function mapHostname(input: string): string {
+  let output = Array.from(input.replace(IGNORED, ''), mapChar).join('');
+  if (typeof output.normalize === 'function') {
+    output = output.normalize('NFC');
+  }
+  return output.replace(DOTS, '.');
+}
+
+// Convert a hostname to its ASCII form, encoding every label with non-ASCII
+// characters with punycode.  Throws a `TypeError` for labels starting with
+// `xn--` that are not valid punycode.
+export function domainToASCII(input: string): string {
+  return mapHostname(input).split('.').map((label) => {
+    if (label.startsWith(ACE_PREFIX)) {
+      const decoded = punycodeDecode(label.substring(ACE_PREFIX.length));
+      if (!NON_ASCII.test(decoded) || punycodeEncode(mapHostname(decoded)) !==
+          label.substring(ACE_PREFIX.length)) {
+        throw new TypeError(`invalid punycode label '${label}'.`);
+      }
+      return label;
+    }
+    return NON_ASCII.test(label) ? ACE_PREFIX + punycodeEncode(label) : label;
+  }).join('.');
+}
+
+// Convert the `xn--` labels of a hostname back to Unicode.  Labels that are
+// not valid punycode are left as they are.
+export function domainToUnicode(input: string): string {
+  return input.split('.').map((label) => {
+    if (!label.toLowerCase().startsWith(ACE_PREFIX)) {
+      return label;
+    }
+    try {
+      return punycodeDecode(label.substring(ACE_PREFIX.length));
+    } catch {
+      return label;
+    }
+  }).join('.');
+}
+
+let urlHasIDNA: boolean | undefined;
+
+// Whether the `URL` of the runtime converts Unicode hostnames.  This is
+// checked once, the first time a Unicode hostname is seen.
+function hasIDNA(): boolean {
+  if (urlHasIDNA === undefined) {
+    try {
+      urlHasIDNA = new URL('https://m\u00FCnchen.example').hostname === 'xn--mnchen-3ya.example';
+    } catch {
+      urlHasIDNA = false;
+    }
+  }
+  return urlHasIDNA;
+}
+
+// Returns a hostname `URL` accepts in place of `input`, which is `input`
+// itself unless it has non-ASCII characters `URL` cannot convert.
+export function toURLHostname(input: string): string {
+  if (!NON_ASCII.test(input) || hasIDNA()) {
+    return input;
+  }
+  return domainToASCII(input);
+}
+
+// Returns a URL string `URL` accepts in place of `input`, converting its
+// host if needed as `toURLHostname()` does.  Only URLs with an authority
+// have a host.
+export function toURLString(input: string): string {
+  if (!NON_ASCII.test(input) || hasIDNA()) {
+    return input;
+  }
+  const match = /^(\s*[A-Za-z][A-Za-z0-9+.-]*:[/\\]{2})([^/\\?#]*)([\s\S]*)$/.exec(input);
+  if (!match) {
+    return input;
+  }
+  const [, scheme, authority, rest] = match;
+  const at = authority.lastIndexOf('@');
+  const userinfo = authority.substring(0, at + 1);
+  const host = authority.substring(at + 1);
+  if (host.startsWith('[')) {
+    return input;
+  }
+  const colon = host.indexOf(':');
+  const hostname = colon === -1 ? host : host.substring(0, colon);
+  const port = colon === -1 ? '' : host.substring(colon);
+  return scheme + userinfo + toURLHostname(hostname) + port + rest;
+}
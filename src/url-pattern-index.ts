@@ -0,0 +1,146 @@
+import { Token } from './path-to-regex-modified';
+import { overlapSnapshot } from './url-pattern-overlap';
+import { URLPatternComponentSnapshot, URLPatternSnapshot } from './url-pattern.interfaces';
+
+interface TrieNode<T> {
+  value?: T;
+  children: Map<string, TrieNode<T>>;
+}
+
+// A trie keyed on string sequences.  Walking it visits the values stored at
+// every prefix of a key sequence.
+class Trie<T> {
+  private root: TrieNode<T> = { children: new Map() };
+
+  // Returns the value stored at `keys`, creating it if needed.
+  get(keys: string[], create: () => T): T {
+    let node = this.root;
+    for (const key of keys) {
+      let child = node.children.get(key);
+      if (!child) {
+        child = { children: new Map() };
+        node.children.set(key, child);
+      }
+      node = child;
+    }
+    if (node.value === undefined) {
+      node.value = create();
+    }
+    return node.value;
+  }
+
+  walk(keys: string[], visit: (value: T) => void) {
+    let node: TrieNode<T> | undefined = this.root;
+    for (let i = 0; node; node = node.children.get(keys[i++])) {
+      if (node.value !== undefined) {
+        visit(node.value);
+      }
+      if (i === keys.length) {
+        break;
+      }
+    }
+  }
+}
+
+// Returns whether a token is fixed text, either plain or a `{ ... }` group
+// without a modifier.
+function fixedText(token: Token): string | undefined {
+  if (typeof token === 'string') {
+    return token;
+  }
+  return !token.pattern && !token.modifier ? token.prefix + token.suffix : undefined;
+}
+
+function isLiteral(component: URLPatternComponentSnapshot): boolean {
+  return component.tokens.every((token) => fixedText(token) !== undefined);
+}
+
+// Returns the leading pathname segments that every matching pathname has.
+// The last segment of the fixed text is only complete if a group starting
+// with a `/` follows, or if the pattern ends there, unless it ends with a `/`
+// and only has to match a prefix of the pathname.
+function pathnameKeys(component: URLPatternComponentSnapshot, matchPrefix: boolean): string[] {
+  if (component.flags.includes('i')) {
+    return [];
+  }
+  let text = '';
+  let i = 0;
+  for (; i < component.tokens.length; ++i) {
+    const fixed = fixedText(component.tokens[i]);
+    if (fixed === undefined) {
+      break;
+    }
+    text += fixed;
+  }
+  const next = component.tokens[i];
+  const segments = text.split('/');
+  if (next === undefined ? matchPrefix && text.endsWith('/') :
+      typeof next === 'string' || !next.prefix.startsWith('/')) {
+    segments.pop();
+  }
+  return segments;
+}
+
+// Returns the trailing hostname labels that every matching hostname has,
+// from the last one.  The first label of the fixed text is only complete if
+// the whole hostname is fixed.
+function hostnameKeys(component: URLPatternComponentSnapshot): string[] {
+  let text = '';
+  let i = component.tokens.length - 1;
+  for (; i >= 0; --i) {
+    const fixed = fixedText(component.tokens[i]);
+    if (fixed === undefined) {
+      break;
+    }
+    text = fixed + text;
+  }
+  const labels = text.split('.');
+  if (i >= 0) {
+    labels.shift();
+  }
+  return labels.reverse();
+}
+
+// The values of the components used to look up candidate patterns.
+export interface IndexValues {
+  protocol: string;
+  hostname: string;
+  pathname: string;
+}
+
+// An index of the patterns of a list, keyed on their fixed protocol, the
+// fixed trailing labels of their hostname and the fixed leading segments of
+// their pathname.  Looking up a URL returns the positions of the patterns
+// that may match it, in list order.  Every pattern that matches the URL is
+// among them, so running the patterns in that order finds the same matches
+// as a linear scan.
+export class PatternIndex {
+  private trie = new Trie<Trie<Trie<number[]>>>();
+
+  constructor(patterns: Array<{ toJSON(): URLPatternSnapshot }>) {
+    patterns.forEach((pattern, position) => {
+      const { components, match } = overlapSnapshot(pattern);
+      const protocol = isLiteral(components.protocol) ?
+        [components.protocol.tokens.map(fixedText).join('')] : [];
+      this.trie
+        .get(protocol, () => new Trie())
+        .get(hostnameKeys(components.hostname), () => new Trie())
+        .get(pathnameKeys(components.pathname, match === 'prefix'), () => [])
+        .push(position);
+    });
+  }
+
+  candidates(values: IndexValues): number[] {
+    const result: number[] = [];
+    const labels = values.hostname.split('.').reverse();
+    const segments = values.pathname.split('/');
+    this.trie.walk([values.protocol], (hostnames) => {
+      hostnames.walk(labels, (pathnames) => {
+        pathnames.walk(segments, (positions) => {
+          result.push(...positions);
+        });
+      });
+    });
+    return result.sort((left, right) => left - right);
+  }
+}
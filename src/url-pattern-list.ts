@@ -1,71 +1,208 @@
 import { parseShorthand } from './parseShorthand';
 import { URLPattern } from './url-pattern';
-import { URLPatternResult } from './url-pattern.interfaces';
+import { overlapExamples, overlapSnapshot } from './url-pattern-overlap';
+import { PatternIndex } from './url-pattern-index';
+import {
+  URLLike,
+  URLPatternComponent,
+  URLPatternConflict,
+  URLPatternInit,
+  URLPatternListOptions,
+  URLPatternListResult,
+  URLPatternMatchInput,
+} from './url-pattern.interfaces';
+
+// The order in which components are compared when sorting a list by
+// specificity.
+const COMPONENTS: URLPatternComponent[] = [
+  'protocol',
+  'username',
+  'password',
+  'hostname',
+  'port',
+  'pathname',
+  'search',
+  'hash',
+];
+
+// The smallest list that is indexed.  Looking up candidates costs about as
+// much as running a few patterns.
+const INDEX_THRESHOLD = 16;
+
+// A pattern matching every URL, used to canonicalize inputs for the index
+// the way every pattern does.  Created on first use since this module and
+// `url-pattern.ts` import each other.
+let wildcardPattern: URLPattern | undefined;
+
+// Compare two patterns for sorting from the most to the least specific.
+export function compareSpecificity(left: URLPattern, right: URLPattern): number {
+  for (const component of COMPONENTS) {
+    const result = URLPattern.compareComponent(component, right, left);
+    if (result) {
+      return result;
+    }
+  }
+  return 0;
+}
+
+// A pattern of the list.  `index` is its position in the list given to the
+// constructor, which is kept when the list is sorted.  `constraint` holds
+// the components given in the list options, which `URLPattern` entries
+// must also match since they cannot be merged into them.
+interface Entry {
+  pattern: URLPattern;
+  index: number;
+  constraint?: URLPattern;
+}
 
 export class URLPatternList {
-  private patterns: Array<URLPattern> = [];
+  private entries: Entry[] = [];
+  private index?: PatternIndex;
 
-  constructor(list: URLPattern[], options = {}) {
+  constructor(list: Array<URLPattern | URLPatternInit | string>, listOptions: URLPatternListOptions = {}) {
+    const { sort, index: useIndex, ...options } = listOptions;
     if (!Array.isArray(list)) {
-      throw TypeError('parameter list must be if type URLPattern[]');
+      throw new TypeError(`Failed to construct 'URLPatternList': parameter 1 is not an array.`);
     }
 
-    const firstItem = list[0];
-    if (firstItem instanceof URLPattern) {
-      for (let pattern of list) {
-        if (!(pattern instanceof URLPattern)) {
-          throw TypeError('parameter list must be if type URLPattern[]');
-        }
-        this.patterns.push(pattern);
+    let constraint: URLPattern | undefined;
+    const components = COMPONENTS.filter((component) => options[component] !== undefined);
+    if (components.length) {
+      const init: URLPatternInit = {};
+      for (const component of components) {
+        init[component] = options[component];
       }
-    } else {
-      try {
-        for (let patternInit of list) {
-          let init = {};
-          if (typeof patternInit === 'object') {
-            init = Object.assign(Object.assign({}, options), patternInit);
-          } else if (typeof patternInit === 'string') {
-            init = Object.assign(Object.assign({}, options), parseShorthand(patternInit));
-          } else {
-            throw new TypeError('List contains no parsable information');
-          }
-
-          this.patterns.push(new URLPattern(init));
-        }
-      } catch {
-        throw new TypeError('List contains no parsable information');
+      constraint = this.construct(init, 'options');
+    }
+
+    list.forEach((item, index) => {
+      if (item instanceof URLPattern) {
+        this.entries.push({ pattern: item, index, constraint });
+        return;
+      }
+      let init: URLPatternInit;
+      if (typeof item === 'string') {
+        init = Object.assign({}, options, parseShorthand(item));
+      } else if (item && typeof item === 'object') {
+        init = Object.assign({}, options, item);
+      } else {
+        throw new TypeError(
+          `Failed to construct 'URLPatternList': entry ${index} is not a URLPattern, URLPatternInit or string.`);
       }
+      this.entries.push({ pattern: this.construct(init, `entry ${index}`), index });
+    });
+
+    // Optionally order the patterns so the most specific one matches first.
+    // The sort is stable, so equivalent patterns keep their list order.
+    if (sort) {
+      this.entries.sort((left, right) => compareSpecificity(left.pattern, right.pattern));
+    }
+
+    if (useIndex !== false && this.entries.length >= INDEX_THRESHOLD) {
+      this.index = new PatternIndex(this.entries.map((entry) => entry.pattern));
     }
   }
 
-  test(url: string) {
+  // Returns the entries that may match the input, in matching order.
+  private candidates(input: URLPatternMatchInput, baseURL?: string | URLLike): Entry[] {
+    if (!this.index) {
+      return this.entries;
+    }
+    if (!wildcardPattern) {
+      wildcardPattern = new URLPattern({});
+    }
+    // Inputs that no pattern can match, such as invalid URLs, have no
+    // canonical values.
+    const values = wildcardPattern.exec(input, baseURL);
+    if (!values) {
+      return [];
+    }
+    return this.index.candidates({
+      protocol: values.protocol.input,
+      hostname: values.hostname.input,
+      pathname: values.pathname.input,
+    }).map((position) => this.entries[position]);
+  }
+
+  // Construct a pattern, naming the offending entry in any error.
+  private construct(init: URLPatternInit, description: string): URLPattern {
     try {
-      new URL(url); // allows string or URL object.
-    } catch {
-      return false;
+      return new URLPattern(init);
+    } catch (err: any) {
+      throw new TypeError(`Failed to construct 'URLPatternList': invalid ${description}. ${err.message}`);
     }
+  }
 
-    for (let urlPattern of this.patterns) {
-      if (urlPattern.test(url)) {
+  private execEntry(entry: Entry, input: URLPatternMatchInput,
+                    baseURL?: string | URLLike): URLPatternListResult | null {
+    const result = entry.pattern.exec(input, baseURL);
+    if (!result || (entry.constraint && !entry.constraint.test(input, baseURL))) {
+      return null;
+    }
+    return Object.assign(result, { index: entry.index, pattern: entry.pattern });
+  }
+
+  test(input: URLPatternMatchInput = {}, baseURL?: string | URLLike): boolean {
+    for (const entry of this.candidates(input, baseURL)) {
+      if (entry.pattern.test(input, baseURL) &&
+          (!entry.constraint || entry.constraint.test(input, baseURL))) {
         return true;
       }
     }
     return false;
   }
 
-  exec(url: string): URLPatternResult | null | number {
-    try {
-      new URL(url); // allows string or URL object.
-    } catch {
-      return null;
+  // Returns the result of the first matching pattern, along with its index
+  // in the list given to the constructor.
+  exec(input: URLPatternMatchInput = {}, baseURL?: string | URLLike): URLPatternListResult | null {
+    for (const entry of this.candidates(input, baseURL)) {
+      const result = this.execEntry(entry, input, baseURL);
+      if (result) {
+        return result;
+      }
     }
+    return null;
+  }
 
-    for (let urlPattern of this.patterns) {
-      const value = urlPattern.exec(url);
-      if (value) {
-        return value;
+  // Returns the results of every matching pattern, in matching order.
+  execAll(input: URLPatternMatchInput = {}, baseURL?: string | URLLike): URLPatternListResult[] {
+    const results: URLPatternListResult[] = [];
+    for (const entry of this.candidates(input, baseURL)) {
+      const result = this.execEntry(entry, input, baseURL);
+      if (result) {
+        results.push(result);
       }
     }
-    return null;
+    return results;
+  }
+
+  // Report the patterns that overlap a pattern matched before them.  A
+  // pattern is shadowed when every URL it matches is matched by an earlier
+  // pattern, so it can never match, and ambiguous when only some are.  Only
+  // overlaps demonstrated by an example URL matched by both patterns are
+  // reported.  Indices refer to the list given to the constructor.
+  findConflicts(): URLPatternConflict[] {
+    const conflicts: URLPatternConflict[] = [];
+    for (let i = 1; i < this.entries.length; ++i) {
+      const entry = this.entries[i];
+      for (let j = 0; j < i; ++j) {
+        const other = this.entries[j];
+        if (!URLPattern.intersects(entry.pattern, other.pattern)) {
+          continue;
+        }
+        const example = overlapExamples(overlapSnapshot(entry.pattern), overlapSnapshot(other.pattern))
+          .find((url) => this.execEntry(entry, url) && this.execEntry(other, url));
+        if (example === undefined) {
+          continue;
+        }
+        conflicts.push({
+          type: !other.constraint && entry.pattern.isSubsetOf(other.pattern) ? 'shadowed' : 'ambiguous',
+          index: entry.index,
+          otherIndex: other.index,
+          example,
+        });
+      }
+    }
+    return conflicts;
   }
-}
\ No newline at end of file
+}
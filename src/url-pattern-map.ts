@@ -0,0 +1,133 @@
+import { parseShorthand } from './parseShorthand';
+import { URLPattern } from './url-pattern';
+import { compareSpecificity, URLPatternList } from './url-pattern-list';
+import {
+  URLLike,
+  URLPatternInit,
+  URLPatternListResult,
+  URLPatternMapEntry,
+  URLPatternMapMatch,
+  URLPatternMapOptions,
+  URLPatternMatchInput,
+} from './url-pattern.interfaces';
+
+// A collection of patterns, each associated with a value.  Every entry is
+// given an id when it is added, which stays valid until the entry is
+// deleted.  Entries match in insertion order, or from the most to the least
+// specific pattern when the `sort` option is set.
+export class URLPatternMap<T> {
+  private entries: Array<URLPatternMapEntry<T>> = [];
+  private nextId = 0;
+  private sort: boolean;
+  private index?: boolean;
+
+  // The entries in matching order and the list matching them, built on the
+  // first lookup after a change.
+  private ordered?: Array<URLPatternMapEntry<T>>;
+  private list?: URLPatternList;
+
+  constructor(entries: Iterable<[URLPattern | URLPatternInit | string, T]> = [],
+              options: URLPatternMapOptions = {}) {
+    this.sort = options.sort === true;
+    this.index = options.index;
+    for (const [pattern, value] of entries) {
+      this.set(pattern, value);
+    }
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  // Add a pattern and its value.  Returns the id of the new entry.
+  set(pattern: URLPattern | URLPatternInit | string, value: T): number {
+    let instance: URLPattern;
+    try {
+      if (pattern instanceof URLPattern) {
+        instance = pattern;
+      } else if (typeof pattern === 'string') {
+        instance = new URLPattern(parseShorthand(pattern));
+      } else if (pattern && typeof pattern === 'object') {
+        instance = new URLPattern(pattern);
+      } else {
+        throw new TypeError(`parameter 1 is not a URLPattern, URLPatternInit or string.`);
+      }
+    } catch (err: any) {
+      throw new TypeError(`Failed to execute 'set' on 'URLPatternMap': ${err.message}`);
+    }
+    const id = this.nextId++;
+    this.entries.push({ id, pattern: instance, value });
+    this.invalidate();
+    return id;
+  }
+
+  has(id: number): boolean {
+    return this.entries.some((entry) => entry.id === id);
+  }
+
+  // Remove the entry with the given id.  Returns false if there is none.
+  delete(id: number): boolean {
+    const position = this.entries.findIndex((entry) => entry.id === id);
+    if (position === -1) {
+      return false;
+    }
+    this.entries.splice(position, 1);
+    this.invalidate();
+    return true;
+  }
+
+  clear() {
+    this.entries = [];
+    this.invalidate();
+  }
+
+  // Returns the first matching entry.
+  get(input: URLPatternMatchInput = {}, baseURL?: string | URLLike): URLPatternMapMatch<T> | undefined {
+    const list = this.build();
+    const result = list.exec(input, baseURL);
+    return result ? this.match(result) : undefined;
+  }
+
+  // Returns every matching entry in matching order.
+  getAll(input: URLPatternMatchInput = {}, baseURL?: string | URLLike): Array<URLPatternMapMatch<T>> {
+    const list = this.build();
+    return list.execAll(input, baseURL).map((result) => this.match(result));
+  }
+
+  // Iterate over the entries in matching order.
+  *[Symbol.iterator](): IterableIterator<URLPatternMapEntry<T>> {
+    this.build();
+    for (const { id, pattern, value } of this.ordered!) {
+      yield { id, pattern, value };
+    }
+  }
+
+  *values(): IterableIterator<T> {
+    for (const entry of this) {
+      yield entry.value;
+    }
+  }
+
+  private invalidate() {
+    this.ordered = undefined;
+    this.list = undefined;
+  }
+
+  private build(): URLPatternList {
+    if (!this.list) {
+      this.ordered = this.entries.slice();
+      if (this.sort) {
+        this.ordered.sort((left, right) => compareSpecificity(left.pattern, right.pattern));
+      }
+      this.list = new URLPatternList(this.ordered.map((entry) => entry.pattern),
+                                     { index: this.index });
+    }
+    return this.list;
+  }
+
+  private match(listResult: URLPatternListResult): URLPatternMapMatch<T> {
+    const { index, pattern, ...result } = listResult;
+    const { id, value } = this.ordered![index];
+    return { id, value, pattern, result };
+  }
+}
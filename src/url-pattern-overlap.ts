@@ -0,0 +1,786 @@
+import { Token } from './path-to-regex-modified';
+import {
+  URLPatternComponent,
+  URLPatternComponentSnapshot,
+  URLPatternSnapshot,
+} from './url-pattern.interfaces';
+
+// Static analysis of the URLs matched by patterns.  Every component pattern
+// is translated into a character-level NFA, built from its tokens and from
+// the regexp of every group.  Two patterns intersect when each pair of
+// component NFAs accepts a common string, and a pattern is a subset of
+// another when no component string is accepted by the first NFA but not by
+// the second.  Both checks determinize the NFAs on the fly.
+//
+// Regexp features that cannot be expressed as an NFA, such as lookarounds
+// and back references, are approximated conservatively: as any string when
+// they may only widen the result, and as no string when they may only
+// narrow it.  Intersection is therefore never missed, while a subset is only
+// reported when it holds.
+
+const COMPONENTS: URLPatternComponent[] = [
+  'protocol',
+  'username',
+  'password',
+  'hostname',
+  'port',
+  'pathname',
+  'search',
+  'hash',
+];
+
+// Component values that make readable example URLs.
+const EXAMPLE_VALUES: {[component in URLPatternComponent]: string} = {
+  protocol: 'https',
+  username: '',
+  password: '',
+  hostname: 'example.com',
+  port: '',
+  pathname: '/',
+  search: '',
+  hash: '',
+};
+
+const SPECIAL_SCHEMES = ['ftp', 'file', 'http', 'https', 'ws', 'wss'];
+
+// The largest number of product states explored before giving up.
+const MAX_STATES = 20000;
+
+const MAX_CODE_POINT = 0x10FFFF;
+
+// A set of code points as a sorted list of disjoint inclusive ranges,
+// flattened into `[low, high, low, high, ...]`.
+export type CharSet = number[];
+
+// Canonical component values never contain line terminators, since the URL
+// parser strips or percent-encodes them, so `.` is modelled as any character.
+export const ANY: CharSet = [0, MAX_CODE_POINT];
+const DOT: CharSet = ANY;
+const DIGIT: CharSet = [0x30, 0x39];
+const WORD: CharSet = [0x30, 0x39, 0x41, 0x5A, 0x5F, 0x5F, 0x61, 0x7A];
+const SPACE: CharSet = [
+  0x09, 0x0D, 0x20, 0x20, 0xA0, 0xA0, 0x1680, 0x1680, 0x2000, 0x200A,
+  0x2028, 0x2029, 0x202F, 0x202F, 0x205F, 0x205F, 0x3000, 0x3000, 0xFEFF, 0xFEFF,
+];
+
+export function unionCharSets(sets: CharSet[]): CharSet {
+  const ranges: Array<[number, number]> = [];
+  for (const set of sets) {
+    for (let i = 0; i < set.length; i += 2) {
+      ranges.push([set[i], set[i + 1]]);
+    }
+  }
+  ranges.sort((left, right) => left[0] - right[0]);
+  const result: CharSet = [];
+  for (const [low, high] of ranges) {
+    const last = result.length - 1;
+    if (last > 0 && low <= result[last] + 1) {
+      result[last] = Math.max(result[last], high);
+    } else {
+      result.push(low, high);
+    }
+  }
+  return result;
+}
+
+export function complementCharSet(set: CharSet): CharSet {
+  const result: CharSet = [];
+  let next = 0;
+  for (let i = 0; i < set.length; i += 2) {
+    if (set[i] > next) {
+      result.push(next, set[i] - 1);
+    }
+    next = set[i + 1] + 1;
+  }
+  if (next <= MAX_CODE_POINT) {
+    result.push(next, MAX_CODE_POINT);
+  }
+  return result;
+}
+
+function charSetHas(set: CharSet, code: number): boolean {
+  for (let i = 0; i < set.length; i += 2) {
+    if (code >= set[i] && code <= set[i + 1]) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Add the other case of every ASCII letter in the set.  Case folding of
+// other characters is not modelled.
+export function foldCharSet(set: CharSet): CharSet {
+  const folded: CharSet[] = [set];
+  for (let i = 0; i < set.length; i += 2) {
+    for (const [low, high, shift] of [[0x41, 0x5A, 32], [0x61, 0x7A, -32]]) {
+      const from = Math.max(low, set[i]);
+      const to = Math.min(high, set[i + 1]);
+      if (from <= to) {
+        folded.push([from + shift, to + shift]);
+      }
+    }
+  }
+  return unionCharSets(folded);
+}
+
+// The regexp syntax tree.  `opaque` stands for a construct that cannot be
+// expressed as an NFA.
+export type Node =
+  | { kind: 'chars', set: CharSet }
+  | { kind: 'seq', items: Node[] }
+  | { kind: 'alt', items: Node[] }
+  | { kind: 'repeat', node: Node, min: number, max: number }
+  | { kind: 'opaque' };
+
+const EMPTY_NODE: Node = { kind: 'seq', items: [] };
+
+// The largest bounded repetition expanded into the NFA.  Larger ones are
+// treated as opaque.
+const MAX_REPEAT = 64;
+
+function literalNode(value: string): Node {
+  return {
+    kind: 'seq',
+    items: Array.from(value, (char) => {
+      const code = char.codePointAt(0)!;
+      return { kind: 'chars', set: [code, code] } as Node;
+    }),
+  };
+}
+
+// A parser for the regexps of groups.  It understands the regexp syntax
+// accepted with the `u` flag and returns an opaque node for assertions,
+// back references, repetitions larger than `maxRepeat` and anything it does
+// not recognize.
+export class RegExpParser {
+  private index = 0;
+
+  constructor(private source: string, private maxRepeat = MAX_REPEAT) {}
+
+  parse(): Node {
+    try {
+      const node = this.parseAlternation();
+      return this.index === this.source.length ? node : { kind: 'opaque' };
+    } catch {
+      return { kind: 'opaque' };
+    }
+  }
+
+  private peek(): string {
+    return this.source[this.index];
+  }
+
+  private parseAlternation(): Node {
+    const items = [this.parseSequence()];
+    while (this.peek() === '|') {
+      this.index++;
+      items.push(this.parseSequence());
+    }
+    return items.length === 1 ? items[0] : { kind: 'alt', items };
+  }
+
+  private parseSequence(): Node {
+    const items: Node[] = [];
+    while (this.index < this.source.length && this.peek() !== '|' && this.peek() !== ')') {
+      items.push(this.parseQuantifier(this.parseAtom()));
+    }
+    return items.length === 1 ? items[0] : { kind: 'seq', items };
+  }
+
+  private parseQuantifier(node: Node): Node {
+    let min: number;
+    let max: number;
+    const char = this.peek();
+    if (char === '*' || char === '+' || char === '?') {
+      this.index++;
+      min = char === '+' ? 1 : 0;
+      max = char === '?' ? 1 : Infinity;
+    } else if (char === '{') {
+      const match = /^\{(\d+)(,(\d*))?\}/.exec(this.source.substring(this.index));
+      if (!match) {
+        throw new SyntaxError('invalid quantifier');
+      }
+      this.index += match[0].length;
+      min = Number(match[1]);
+      max = match[2] === undefined ? min : match[3] === '' ? Infinity : Number(match[3]);
+    } else {
+      return node;
+    }
+    // Lazy quantifiers match the same strings.
+    if (this.peek() === '?') {
+      this.index++;
+    }
+    if (min > this.maxRepeat || (max !== Infinity && max > this.maxRepeat)) {
+      return { kind: 'opaque' };
+    }
+    return { kind: 'repeat', node, min, max };
+  }
+
+  private parseAtom(): Node {
+    const char = this.source[this.index++];
+    switch (char) {
+      case '(':
+        return this.parseGroup();
+      case '[':
+        return { kind: 'chars', set: this.parseClass() };
+      case '.':
+        return { kind: 'chars', set: DOT };
+      case '\\':
+        return this.parseEscape();
+      case '^':
+      case '$':
+        return { kind: 'opaque' };
+      default: {
+        const code = this.source.codePointAt(this.index - 1)!;
+        if (code > 0xFFFF) {
+          this.index++;
+        }
+        return { kind: 'chars', set: [code, code] };
+      }
+    }
+  }
+
+  private parseGroup(): Node {
+    let opaque = false;
+    if (this.source.startsWith('?:', this.index)) {
+      this.index += 2;
+    } else if (this.peek() === '?') {
+      // Lookarounds and named groups.
+      opaque = true;
+      const match = /^\?(<[^>]*>|<?[=!])/.exec(this.source.substring(this.index));
+      if (!match) {
+        throw new SyntaxError('invalid group');
+      }
+      this.index += match[0].length;
+    }
+    const node = this.parseAlternation();
+    if (this.source[this.index++] !== ')') {
+      throw new SyntaxError('unterminated group');
+    }
+    return opaque ? { kind: 'opaque' } : node;
+  }
+
+  private parseEscape(): Node {
+    const set = this.parseClassEscape();
+    return set ? { kind: 'chars', set } : { kind: 'opaque' };
+  }
+
+  // Returns the characters of an escape whose `\` has been consumed, or
+  // undefined for assertions and back references.
+  private parseClassEscape(): CharSet | undefined {
+    const char = this.source[this.index++];
+    switch (char) {
+      case 'd': return DIGIT;
+      case 'D': return complementCharSet(DIGIT);
+      case 'w': return WORD;
+      case 'W': return complementCharSet(WORD);
+      case 's': return SPACE;
+      case 'S': return complementCharSet(SPACE);
+      case 't': return [0x09, 0x09];
+      case 'n': return [0x0A, 0x0A];
+      case 'v': return [0x0B, 0x0B];
+      case 'f': return [0x0C, 0x0C];
+      case 'r': return [0x0D, 0x0D];
+      case '0': return [0, 0];
+      case 'b': case 'B': case 'k': case 'p': case 'P': case 'c':
+        return undefined;
+      case 'x':
+      case 'u': {
+        const match = char === 'x' ?
+          /^([0-9A-Fa-f]{2})/.exec(this.source.substring(this.index)) :
+          /^(?:\{([0-9A-Fa-f]+)\}|([0-9A-Fa-f]{4}))/.exec(this.source.substring(this.index));
+        if (!match) {
+          throw new SyntaxError('invalid escape');
+        }
+        this.index += match[0].length;
+        const code = parseInt(match[1] || match[2], 16);
+        return [code, code];
+      }
+      default: {
+        if (char === undefined || /[1-9]/.test(char)) {
+          return undefined;
+        }
+        const code = char.codePointAt(0)!;
+        return [code, code];
+      }
+    }
+  }
+
+  private parseClass(): CharSet {
+    const negate = this.peek() === '^';
+    if (negate) {
+      this.index++;
+    }
+    const sets: CharSet[] = [];
+    while (this.peek() !== ']') {
+      if (this.index >= this.source.length) {
+        throw new SyntaxError('unterminated class');
+      }
+      const low = this.parseClassAtom();
+      if (this.peek() === '-' && this.source[this.index + 1] !== ']' &&
+          low.length === 2 && low[0] === low[1]) {
+        this.index++;
+        const high = this.parseClassAtom();
+        if (high.length !== 2 || high[0] !== high[1] || high[0] < low[0]) {
+          throw new SyntaxError('invalid range');
+        }
+        sets.push([low[0], high[0]]);
+      } else {
+        sets.push(low);
+      }
+    }
+    this.index++;
+    const set = unionCharSets(sets);
+    return negate ? complementCharSet(set) : set;
+  }
+
+  private parseClassAtom(): CharSet {
+    const char = this.source[this.index++];
+    if (char === '\\') {
+      if (this.peek() === 'b') {
+        this.index++;
+        return [0x08, 0x08];
+      }
+      const set = this.parseClassEscape();
+      if (!set) {
+        throw new SyntaxError('unsupported class escape');
+      }
+      return set;
+    }
+    const code = this.source.codePointAt(this.index - 1)!;
+    if (code > 0xFFFF) {
+      this.index++;
+    }
+    return [code, code];
+  }
+}
+
+// How opaque nodes are approximated; as any string or as no string.
+type Approximation = 'over' | 'under';
+
+// A Thompson NFA.  State 0 is the start state and state 1 accepts.
+interface NFA {
+  epsilon: number[][];
+  edges: Array<Array<[CharSet, number]>>;
+  sets: CharSet[];
+}
+
+class NFABuilder {
+  readonly nfa: NFA = { epsilon: [[], []], edges: [[], []], sets: [] };
+
+  constructor(private approximation: Approximation, private ignoreCase: boolean) {}
+
+  state(): number {
+    this.nfa.epsilon.push([]);
+    this.nfa.edges.push([]);
+    return this.nfa.epsilon.length - 1;
+  }
+
+  // Add the transitions accepting `node` between states `from` and `to`.
+  add(node: Node, from: number, to: number) {
+    switch (node.kind) {
+      case 'chars': {
+        const set = this.ignoreCase ? foldCharSet(node.set) : node.set;
+        this.nfa.edges[from].push([set, to]);
+        this.nfa.sets.push(set);
+        break;
+      }
+      case 'seq': {
+        let current = from;
+        for (const item of node.items) {
+          const next = this.state();
+          this.add(item, current, next);
+          current = next;
+        }
+        this.nfa.epsilon[current].push(to);
+        break;
+      }
+      case 'alt':
+        for (const item of node.items) {
+          this.add(item, from, to);
+        }
+        break;
+      case 'repeat': {
+        let current = from;
+        for (let i = 0; i < node.min; ++i) {
+          const next = this.state();
+          this.add(node.node, current, next);
+          current = next;
+        }
+        if (node.max === Infinity) {
+          const loop = this.state();
+          this.nfa.epsilon[current].push(loop);
+          this.add(node.node, loop, loop);
+          this.nfa.epsilon[loop].push(to);
+        } else {
+          for (let i = node.min; i < node.max; ++i) {
+            const next = this.state();
+            this.nfa.epsilon[current].push(to);
+            this.add(node.node, current, next);
+            current = next;
+          }
+          this.nfa.epsilon[current].push(to);
+        }
+        break;
+      }
+      case 'opaque':
+        if (this.approximation === 'over') {
+          this.add({ kind: 'repeat', node: { kind: 'chars', set: ANY }, min: 0, max: Infinity },
+                   from, to);
+        }
+        break;
+    }
+  }
+}
+
+// Patterns cannot change once constructed, so their snapshots are only
+// taken once.
+const SNAPSHOT_CACHE = new WeakMap<object, URLPatternSnapshot>();
+
+export function overlapSnapshot(pattern: { toJSON(): URLPatternSnapshot }): URLPatternSnapshot {
+  let snapshot = SNAPSHOT_CACHE.get(pattern);
+  if (!snapshot) {
+    snapshot = pattern.toJSON();
+    SNAPSHOT_CACHE.set(pattern, snapshot);
+  }
+  return snapshot;
+}
+
+// Returns the syntax tree of a component or `searchParams` pattern.
+// `nonEmpty` makes `*` wildcards match at least one character, which gives
+// more readable examples.  `tail` appends the unmatched remainder allowed by
+// a prefix-matched pathname.
+function patternNode(tokens: Token[], nonEmpty: boolean, tail: boolean): Node {
+  const items: Node[] = [];
+  for (const token of tokens) {
+    if (typeof token === 'string') {
+      items.push(literalNode(token));
+      continue;
+    }
+    let body: Node;
+    if (!token.pattern) {
+      body = literalNode(token.prefix + token.suffix);
+    } else {
+      const group: Node = nonEmpty && token.pattern === '.*' ?
+        { kind: 'repeat', node: { kind: 'chars', set: DOT }, min: 1, max: Infinity } :
+        new RegExpParser(token.pattern).parse();
+      body = { kind: 'seq', items: [literalNode(token.prefix), group, literalNode(token.suffix)] };
+    }
+    switch (token.modifier) {
+      case '?': body = { kind: 'repeat', node: body, min: 0, max: 1 }; break;
+      case '*': body = { kind: 'repeat', node: body, min: 0, max: Infinity }; break;
+      case '+': body = { kind: 'repeat', node: body, min: 1, max: Infinity }; break;
+    }
+    items.push(body);
+  }
+
+  if (tail) {
+    // Mirrors the end of `tokensToRegexp()` when `end` is false.
+    const last = tokens[tokens.length - 1];
+    const anything: Node = { kind: 'repeat', node: { kind: 'chars', set: ANY }, min: 0, max: Infinity };
+    if (last === undefined || (typeof last === 'string' && last.endsWith('/'))) {
+      items.push(anything);
+    } else {
+      items.push({
+        kind: 'alt',
+        items: [EMPTY_NODE, { kind: 'seq', items: [literalNode('/'), anything] }],
+      });
+    }
+  }
+  return { kind: 'seq', items };
+}
+
+// NFAs are cached by component snapshot, since a pattern is compared with
+// many others when looking for conflicts.
+const NFA_CACHE = new WeakMap<URLPatternComponentSnapshot, Map<string, NFA>>();
+
+function componentNFA(component: URLPatternComponentSnapshot, approximation: Approximation,
+                      nonEmpty: boolean, tail: boolean): NFA {
+  let cache = NFA_CACHE.get(component);
+  if (!cache) {
+    cache = new Map();
+    NFA_CACHE.set(component, cache);
+  }
+  const key = `${approximation}:${nonEmpty}:${tail}`;
+  let nfa = cache.get(key);
+  if (!nfa) {
+    const builder = new NFABuilder(approximation, component.flags.includes('i'));
+    builder.add(patternNode(component.tokens, nonEmpty, tail), 0, 1);
+    nfa = builder.nfa;
+    cache.set(key, nfa);
+  }
+  return nfa;
+}
+
+// Returns the sorted epsilon closure of the given states.
+function closure(nfa: NFA, states: number[]): number[] {
+  const seen = new Set(states);
+  const stack = states.slice();
+  while (stack.length) {
+    for (const next of nfa.epsilon[stack.pop()!]) {
+      if (!seen.has(next)) {
+        seen.add(next);
+        stack.push(next);
+      }
+    }
+  }
+  return Array.from(seen).sort((left, right) => left - right);
+}
+
+function step(nfa: NFA, states: number[], code: number): number[] {
+  const next: number[] = [];
+  for (const state of states) {
+    for (const [set, to] of nfa.edges[state]) {
+      if (charSetHas(set, code)) {
+        next.push(to);
+      }
+    }
+  }
+  return closure(nfa, next);
+}
+
+// Characters preferred in examples, most preferred first.
+const PREFERRED = 'abcdefghijklmnopqrstuvwxyz0123456789-';
+
+// Split the code points into the ranges that no character set of either NFA
+// distinguishes, and return a representative of each.  The representatives
+// are ordered so that the examples found first read well.
+function alphabet(left: NFA, right: NFA): number[] {
+  const bounds = new Set([0, MAX_CODE_POINT + 1]);
+  for (const set of left.sets.concat(right.sets)) {
+    for (let i = 0; i < set.length; i += 2) {
+      bounds.add(set[i]);
+      bounds.add(set[i + 1] + 1);
+    }
+  }
+  const sorted = Array.from(bounds).sort((a, b) => a - b);
+  const representatives: number[] = [];
+  for (let i = 0; i < sorted.length - 1; ++i) {
+    const low = sorted[i];
+    const high = sorted[i + 1] - 1;
+    let representative = low;
+    for (const char of PREFERRED) {
+      const code = char.charCodeAt(0);
+      if (code >= low && code <= high) {
+        representative = code;
+        break;
+      }
+    }
+    if (representative === low && low < 0x21 && high >= 0x21) {
+      representative = Math.min(high, 0x7E);
+    }
+    representatives.push(representative);
+  }
+  const rank = (code: number) => {
+    const preferred = PREFERRED.indexOf(String.fromCodePoint(code));
+    if (preferred !== -1) {
+      return preferred;
+    }
+    return code >= 0x21 && code <= 0x7E ? PREFERRED.length : PREFERRED.length + 1;
+  };
+  return representatives.sort((a, b) => rank(a) - rank(b) || a - b);
+}
+
+// Search the product of two NFAs for the shortest string accepted by the
+// first and, depending on `both`, accepted or rejected by the second.
+// Returns null if there is no such string and undefined if the search gave
+// up.
+function search(left: NFA, right: NFA, both: boolean): string | null | undefined {
+  const codes = alphabet(left, right);
+  const start: [number[], number[]] = [closure(left, [0]), closure(right, [0])];
+  const seen = new Set<string>([`${start[0]}|${start[1]}`]);
+  const queue: Array<{ states: [number[], number[]], value: string }> =
+    [{ states: start, value: '' }];
+  for (let i = 0; i < queue.length; ++i) {
+    const { states: [leftStates, rightStates], value } = queue[i];
+    if (leftStates.includes(1) && rightStates.includes(1) === both) {
+      return value;
+    }
+    for (const code of codes) {
+      const next: [number[], number[]] = [step(left, leftStates, code), step(right, rightStates, code)];
+      if (!next[0].length || (both && !next[1].length)) {
+        continue;
+      }
+      const key = `${next[0]}|${next[1]}`;
+      if (seen.has(key)) {
+        continue;
+      }
+      if (seen.size >= MAX_STATES) {
+        return undefined;
+      }
+      seen.add(key);
+      queue.push({ states: next, value: value + String.fromCodePoint(code) });
+    }
+  }
+  return null;
+}
+
+function sameRegExp(left: URLPatternComponentSnapshot, right: URLPatternComponentSnapshot) {
+  return left.regexp === right.regexp && left.flags === right.flags;
+}
+
+// Returns a string matched by both component patterns, null if there is
+// none and undefined if the analysis gave up.
+function intersectComponent(left: URLPatternComponentSnapshot, leftTail: boolean,
+                            right: URLPatternComponentSnapshot, rightTail: boolean,
+                            nonEmpty: boolean): string | null | undefined {
+  return search(componentNFA(left, 'over', nonEmpty, leftTail),
+                componentNFA(right, 'over', nonEmpty, rightTail), true);
+}
+
+function isComponentSubset(left: URLPatternComponentSnapshot, leftTail: boolean,
+                           right: URLPatternComponentSnapshot, rightTail: boolean): boolean {
+  if (sameRegExp(left, right)) {
+    return true;
+  }
+  return search(componentNFA(left, 'over', false, leftTail),
+                componentNFA(right, 'under', false, rightTail), false) === null;
+}
+
+function hasTail(snapshot: URLPatternSnapshot, component: URLPatternComponent) {
+  return component === 'pathname' && snapshot.match === 'prefix';
+}
+
+function matchesEmpty(component: URLPatternComponentSnapshot): boolean {
+  return new RegExp(component.regexp, component.flags).test('');
+}
+
+// Returns whether some URL may be matched by both patterns.  This is true
+// when it cannot be decided.
+export function snapshotsIntersect(left: URLPatternSnapshot, right: URLPatternSnapshot): boolean {
+  for (const component of COMPONENTS) {
+    const l = left.components[component];
+    const r = right.components[component];
+    if (sameRegExp(l, r)) {
+      continue;
+    }
+    if (intersectComponent(l, hasTail(left, component), r, hasTail(right, component), false) === null) {
+      return false;
+    }
+  }
+  return searchParamsIntersect(left, right);
+}
+
+function searchParamsIntersect(left: URLPatternSnapshot, right: URLPatternSnapshot): boolean {
+  if (!left.searchParams || !right.searchParams) {
+    return true;
+  }
+  for (const [one, other] of [[left, right], [right, left]]) {
+    for (const name of Object.keys(one.searchParams!)) {
+      const value = one.searchParams![name];
+      const otherValue = other.searchParams![name];
+      if (otherValue === undefined) {
+        // An absent parameter matches as an empty value.
+        if (!other.allowUnknownSearchParams && !matchesEmpty(value)) {
+          return false;
+        }
+      } else if (intersectComponent(value, false, otherValue, false, false) === null) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+// Returns whether every URL matched by `left` is matched by `right`.  This
+// is false when it cannot be decided.
+export function snapshotIsSubset(left: URLPatternSnapshot, right: URLPatternSnapshot): boolean {
+  for (const component of COMPONENTS) {
+    if (!isComponentSubset(left.components[component], hasTail(left, component),
+                           right.components[component], hasTail(right, component))) {
+      return false;
+    }
+  }
+  if (!right.searchParams) {
+    return true;
+  }
+  if (!left.searchParams) {
+    return false;
+  }
+  for (const name of Object.keys(right.searchParams)) {
+    const value = left.searchParams[name];
+    if (value === undefined) {
+      if (left.allowUnknownSearchParams || !matchesEmpty(right.searchParams[name])) {
+        return false;
+      }
+    } else if (!isComponentSubset(value, false, right.searchParams[name], false)) {
+      return false;
+    }
+  }
+  if (!right.allowUnknownSearchParams) {
+    if (left.allowUnknownSearchParams) {
+      return false;
+    }
+    for (const name of Object.keys(left.searchParams)) {
+      if (right.searchParams[name] === undefined) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+function exampleURL(values: {[component in URLPatternComponent]: string}): string {
+  let result = `${values.protocol}:`;
+  if (values.hostname || SPECIAL_SCHEMES.includes(values.protocol)) {
+    result += '//';
+    if (values.username || values.password) {
+      result += values.username + (values.password ? `:${values.password}` : '') + '@';
+    }
+    result += values.hostname + (values.port ? `:${values.port}` : '');
+  }
+  result += values.pathname;
+  if (values.search) {
+    result += `?${values.search}`;
+  }
+  if (values.hash) {
+    result += `#${values.hash}`;
+  }
+  return result;
+}
+
+// Returns candidate URLs matched by both patterns, most readable first.  The
+// analysis approximates some regexps and the component values are not
+// always valid together, so callers must check the candidates against the
+// patterns.
+export function overlapExamples(left: URLPatternSnapshot, right: URLPatternSnapshot): string[] {
+  const candidates: Array<{[component in URLPatternComponent]: string}> = [{} as any, {} as any];
+  for (const component of COMPONENTS) {
+    const l = left.components[component];
+    const r = right.components[component];
+    const example = EXAMPLE_VALUES[component];
+    if (new RegExp(l.regexp, l.flags).test(example) && new RegExp(r.regexp, r.flags).test(example)) {
+      candidates[0][component] = candidates[1][component] = example;
+      continue;
+    }
+    const tails: [boolean, boolean] = [hasTail(left, component), hasTail(right, component)];
+    const readable = intersectComponent(l, tails[0], r, tails[1], true);
+    const exact = intersectComponent(l, tails[0], r, tails[1], false);
+    if (typeof exact !== 'string') {
+      return [];
+    }
+    candidates[0][component] = typeof readable === 'string' ? readable : exact;
+    candidates[1][component] = exact;
+  }
+
+  if (left.searchParams || right.searchParams) {
+    const params = new URLSearchParams();
+    const names = new Set(Object.keys(left.searchParams || {})
+      .concat(Object.keys(right.searchParams || {})));
+    for (const name of names) {
+      const l = left.searchParams && left.searchParams[name];
+      const r = right.searchParams && right.searchParams[name];
+      const value = intersectComponent(l || r!, false, r || l!, false, true);
+      if (typeof value !== 'string') {
+        return [];
+      }
+      if (value) {
+        params.append(name, value);
+      }
+    }
+    candidates[0].search = candidates[1].search = params.toString();
+  }
+
+  const result = candidates.map(exampleURL);
+  return result[0] === result[1] ? [result[0]] : result;
+}
@@ -0,0 +1,116 @@
+import { URLPatternParamType } from './url-pattern.interfaces';
+import { supportsUnicodeRegExps, toNonUnicodeSource } from './url-pattern-regexp-compat';
+
+// The registry of named parameter types, used by `:name<type>` groups and
+// the `types` constructor option.  Numeric ranges like `8000-8999` are not
+// registered; they are recognized by `lookupParamType()` instead.  `int`
+// only matches safe integers written without leading zeros, as ranges are,
+// and rejects `-0`, so that every value it matches converts to a distinct
+// number.
+const PARAM_TYPES: {[name: string]: URLPatternParamType} = {
+  int: {
+    pattern: `(?:0|-?(?:${rangePattern(1, Number.MAX_SAFE_INTEGER)}))`,
+    parse: (value) => parseInt(value, 10),
+  },
+  uuid: {
+    pattern: '[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}',
+  },
+  slug: {
+    pattern: '[a-z0-9]+(?:-[a-z0-9]+)*',
+  },
+};
+
+const RANGE = /^(\d+)-(\d+)$/;
+
+function digitClass(low: string, high: string): string {
+  return low === high ? low : `[${low}-${high}]`;
+}
+
+// Returns the alternatives matching the decimal numbers from `low` to
+// `high`, which must have the same number of digits.
+function sameLengthRange(low: string, high: string): string[] {
+  if (low === high) {
+    return [low];
+  }
+  const rest = low.length - 1;
+  if (rest === 0) {
+    return [digitClass(low, high)];
+  }
+  if (low[0] === high[0]) {
+    return sameLengthRange(low.substring(1), high.substring(1)).map(
+      (alternative) => low[0] + alternative);
+  }
+  if (/^0*$/.test(low.substring(1)) && /^9*$/.test(high.substring(1))) {
+    return [`${digitClass(low[0], high[0])}\\d{${rest}}`];
+  }
+
+  // Split into the numbers sharing the first digit of `low`, those with a
+  // first digit strictly between, and those sharing the first digit of
+  // `high`.
+  const lowFirst = Number(low[0]);
+  const highFirst = Number(high[0]);
+  const result = sameLengthRange(low, low[0] + '9'.repeat(rest));
+  if (highFirst - lowFirst > 1) {
+    result.push(`${digitClass(String(lowFirst + 1), String(highFirst - 1))}\\d{${rest}}`);
+  }
+  return result.concat(sameLengthRange(high[0] + '0'.repeat(rest), high));
+}
+
+// Returns a regexp pattern matching the decimal numbers from `min` to `max`
+// without leading zeros.
+export function rangePattern(min: number, max: number): string {
+  const alternatives: string[] = [];
+  let low = min;
+  while (low <= max) {
+    const high = Math.min(max, 10 ** String(low).length - 1);
+    alternatives.push(...sameLengthRange(String(low), String(high)));
+    low = high + 1;
+  }
+  return alternatives.join('|');
+}
+
+// Returns the parameter type with the given name.  Throws if there is no
+// such type.
+export function lookupParamType(name: string): URLPatternParamType {
+  if (Object.prototype.hasOwnProperty.call(PARAM_TYPES, name)) {
+    return PARAM_TYPES[name];
+  }
+  const range = RANGE.exec(name);
+  if (range) {
+    const min = Number(range[1]);
+    const max = Number(range[2]);
+    if (min > max || !Number.isSafeInteger(max)) {
+      throw new TypeError(`Invalid range type '${name}'.`);
+    }
+    return { pattern: rangePattern(min, max), parse: Number };
+  }
+  throw new TypeError(`Unknown parameter type '${name}'.`);
+}
+
+// Add a parameter type to the registry.  Types cannot be redefined, and
+// their patterns must not contain capturing groups since those would be
+// mistaken for pattern groups.
+export function defineParamType(name: string, type: URLPatternParamType): void {
+  if (!/^[A-Za-z_$][0-9A-Za-z_$]*$/.test(name)) {
+    throw new TypeError(`Invalid parameter type name '${name}'.`);
+  }
+  if (Object.prototype.hasOwnProperty.call(PARAM_TYPES, name)) {
+    throw new TypeError(`Parameter type '${name}' is already defined.`);
+  }
+  if (!type || typeof type.pattern !== 'string' ||
+      (type.parse !== undefined && typeof type.parse !== 'function')) {
+    throw new TypeError(`Invalid definition for parameter type '${name}'.`);
+  }
+  let groups: number;
+  try {
+    const regexp = supportsUnicodeRegExps() ? new RegExp(`|${type.pattern}`, 'u') :
+      new RegExp(toNonUnicodeSource(`|${type.pattern}`));
+    groups = regexp.exec('')!.length - 1;
+  } catch {
+    throw new TypeError(`Invalid pattern for parameter type '${name}'.`);
+  }
+  if (groups) {
+    throw new TypeError(`Parameter type '${name}' must not contain capturing groups.`);
+  }
+  PARAM_TYPES[name] = { pattern: type.pattern, parse: type.parse };
+}
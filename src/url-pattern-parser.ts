@@ -4,8 +4,9 @@
 //
 
 import {lexer, LexToken, pathToRegexp, ParseOptions, TokensToRegexpOptions} from './path-to-regex-modified';
-import {URLPatternInit} from './url-pattern.interfaces';
+import {URLPatternComponent, URLPatternInit} from './url-pattern.interfaces';
 import {DEFAULT_OPTIONS, protocolEncodeCallback, isSpecialScheme} from './url-utils';
+import {URLPatternSyntaxError} from './url-pattern-syntax-error';
 
 enum State {
   INIT,
@@ -41,6 +42,10 @@ export class Parser {
   // with each component pattern.  This is then the final result of the parse.
   private internalResult: URLPatternInit = {};
 
+  // The offset of each component string within `input`.  Components that
+  // were not present in the input, or were set to a default, have no entry.
+  private internalOffsets: {[component: string]: number} = {};
+
   // The index of the current `LexToken` being considered.
   private tokenIndex: number = 0;
 
@@ -77,6 +82,12 @@ export class Parser {
     return this.internalResult;
   }
 
+  // Return the offset of each component string within the input string.
+  // Like `result` this is only available after `parse()` completes.
+  public get offsets(): {[component: string]: number} {
+    return this.internalOffsets;
+  }
+
   // Attempt to parse the input string used to construct the Parser object.
   // This method may only be called once.  Any errors will be thrown as an
   // exception.  Retrieve the parse result by accessing the `Parser.result`
@@ -327,31 +338,31 @@ export class Parser {
         // No component to set when transitioning from this state.
         break;
       case State.PROTOCOL:
-        this.internalResult.protocol = this.makeComponentString();
+        this.setComponentString('protocol');
         break;
       case State.AUTHORITY:
         // No component to set when transitioning from this state.
         break;
       case State.USERNAME:
-        this.internalResult.username = this.makeComponentString();
+        this.setComponentString('username');
         break;
       case State.PASSWORD:
-        this.internalResult.password = this.makeComponentString();
+        this.setComponentString('password');
         break;
       case State.HOSTNAME:
-        this.internalResult.hostname = this.makeComponentString();
+        this.setComponentString('hostname');
         break;
       case State.PORT:
-        this.internalResult.port = this.makeComponentString();
+        this.setComponentString('port');
         break;
       case State.PATHNAME:
-        this.internalResult.pathname = this.makeComponentString();
+        this.setComponentString('pathname');
         break;
       case State.SEARCH:
-        this.internalResult.search = this.makeComponentString();
+        this.setComponentString('search');
         break;
       case State.HASH:
-        this.internalResult.hash = this.makeComponentString();
+        this.setComponentString('hash');
         break;
       case State.DONE:
         // No component to set when transitioning from this state.
@@ -487,6 +498,11 @@ export class Parser {
     return this.isNonSpecialPatternChar(this.tokenIndex, ']');
   }
 
+  private setComponentString(component: URLPatternComponent): void {
+    this.internalResult[component] = this.makeComponentString();
+    this.internalOffsets[component] = this.safeToken(this.componentStart).index;
+  }
+
   private makeComponentString(): string {
     const token: LexToken = this.tokenList[this.tokenIndex];
     const componentCharStart = this.safeToken(this.componentStart).index;
@@ -497,7 +513,16 @@ export class Parser {
     const options: TokensToRegexpOptions & ParseOptions = {};
     Object.assign(options, DEFAULT_OPTIONS);
     options.encodePart = protocolEncodeCallback;
-    const regexp = pathToRegexp(this.makeComponentString(), /*keys=*/undefined, options);
+    let regexp;
+    try {
+      regexp = pathToRegexp(this.makeComponentString(), /*keys=*/undefined, options);
+    } catch (err: any) {
+      if (err instanceof URLPatternSyntaxError) {
+        throw err.withComponent('protocol', this.input,
+                                this.safeToken(this.componentStart).index + err.index);
+      }
+      throw err;
+    }
     this.shouldTreatAsStandardURL = isSpecialScheme(regexp);
   }
 }
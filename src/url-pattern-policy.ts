@@ -0,0 +1,113 @@
+import { Key } from './path-to-regex-modified';
+import { formatCaret } from './url-pattern-syntax-error';
+import {
+  URLPatternComponent,
+  URLPatternOptions,
+  URLPatternPolicyRule,
+} from './url-pattern.interfaces';
+
+// The error thrown when a pattern breaks one of the policy options of the
+// `URLPattern` constructor.  Like every construction error it is a
+// `TypeError`, but `rule` names the broken option, so callers accepting
+// patterns from untrusted users can tell a forbidden pattern from an invalid
+// one.
+export class URLPatternPolicyError extends TypeError {
+  // The option that was broken.
+  public readonly rule: URLPatternPolicyRule;
+
+  // The pattern breaking the rule.  This is the constructor string when it
+  // is too long, and a component or `searchParams` pattern otherwise.
+  public readonly pattern: string;
+
+  // The offset of the offending group within `pattern`, if any.
+  public readonly index?: number;
+
+  // The component of `pattern`, and the `searchParams` entry for a search
+  // pattern given as `searchParams`.
+  public readonly component?: URLPatternComponent;
+  public readonly searchParam?: string;
+
+  public constructor(rule: URLPatternPolicyRule, reason: string, pattern: string,
+                     index?: number, component?: URLPatternComponent,
+                     searchParam?: string) {
+    const where = component === undefined ? `constructor string` :
+      searchParam === undefined ? `${component} pattern` :
+      `searchParams pattern for '${searchParam}'`;
+    let message = `Failed to construct 'URLPattern': the ${where} '${pattern}' ${reason}`;
+    if (index !== undefined) {
+      message += formatCaret(pattern, index);
+    }
+    super(message);
+    this.name = 'URLPatternPolicyError';
+    this.rule = rule;
+    this.pattern = pattern;
+    this.index = index;
+    this.component = component;
+    this.searchParam = searchParam;
+  }
+}
+
+function checkLimit(options: URLPatternOptions, name: 'maxPatternLength' | 'maxGroups') {
+  const value = options[name];
+  if (value !== undefined && !(Number.isInteger(value) && value >= 0)) {
+    throw new TypeError(`invalid ${name} option '${value}'.`);
+  }
+}
+
+// Enforces the policy options of a single `URLPattern` construction.  The
+// groups of every component and `searchParams` entry count towards
+// `maxGroups`, except for those of components left as `*`.
+export class PatternPolicy {
+  private groups = 0;
+
+  constructor(private options: URLPatternOptions) {
+    checkLimit(options, 'maxPatternLength');
+    checkLimit(options, 'maxGroups');
+    if (options.allowedComponents !== undefined && !Array.isArray(options.allowedComponents)) {
+      throw new TypeError(`invalid allowedComponents option, expected an array of component names.`);
+    }
+  }
+
+  checkConstructorString(input: string) {
+    const { maxPatternLength } = this.options;
+    if (maxPatternLength !== undefined && input.length > maxPatternLength) {
+      throw new URLPatternPolicyError('maxPatternLength',
+        `is longer than ${maxPatternLength} characters.`, input);
+    }
+  }
+
+  // Check a component or `searchParams` pattern before it is parsed, and
+  // return the callback `parse()` calls with each of its groups.
+  begin(component: URLPatternComponent, pattern: string,
+        searchParam?: string): (key: Key, index: number, regexp: boolean) => void {
+    const { allowRegExpGroups, allowedComponents, maxGroups, maxPatternLength } = this.options;
+    const fail = (rule: URLPatternPolicyRule, reason: string, index?: number): never => {
+      throw new URLPatternPolicyError(rule, reason, pattern, index, component, searchParam);
+    };
+
+    if (allowedComponents !== undefined && !allowedComponents.includes(component) &&
+        pattern !== '*') {
+      fail('allowedComponents', `must be '*', since ` + (allowedComponents.length ?
+        `only the ${allowedComponents.join(', ')} components may be constrained.` :
+        `no component may be constrained.`));
+    }
+    if (maxPatternLength !== undefined && pattern.length > maxPatternLength) {
+      fail('maxPatternLength', `is longer than ${maxPatternLength} characters.`);
+    }
+
+    // Components matching anything, as they do by default, have no groups
+    // to restrict.
+    if (pattern === '*') {
+      return () => {};
+    }
+    return (key: Key, index: number, regexp: boolean) => {
+      const group = typeof key.name === 'number' ? `group ${key.name}` : `group '${key.name}'`;
+      if (regexp && allowRegExpGroups === false) {
+        fail('allowRegExpGroups', `has a regexp in ${group}, which is not allowed.`, index);
+      }
+      if (maxGroups !== undefined && ++this.groups > maxGroups) {
+        fail('maxGroups', `has too many groups; ${group} exceeds the limit of ${maxGroups}.`, index);
+      }
+    };
+  }
+}
@@ -0,0 +1,331 @@
+import { Token } from './path-to-regex-modified';
+import {
+  ANY,
+  CharSet,
+  complementCharSet,
+  foldCharSet,
+  Node,
+  RegExpParser,
+  unionCharSets,
+} from './url-pattern-overlap';
+import {
+  URLPatternComponent,
+  URLPatternRegExpWarning,
+  URLPatternRegExpWarningKind,
+} from './url-pattern.interfaces';
+
+// Static detection of component regexps that may backtrack catastrophically.
+// Matching takes exponential time when a repetition can match the same text
+// in many ways: a quantifier nested in an unbounded repetition whose
+// iterations are not clearly delimited, as in `(?:a+)+`, or repeated
+// alternatives that can start with the same character, as in `(?:a|ab)+`.
+// It takes high polynomial time when three or more unbounded groups follow
+// each other and can all match the text between them, as in `*-*-*`, or
+// when three such quantifiers follow each other within a regexp, as in
+// `\d+\d+\d+`.
+//
+// The checks look at characters rather than strings, so they may report
+// regexps that are safe in practice, but they do not miss the usual
+// catastrophic constructs.
+
+// The number of adjacent overlapping groups or quantifiers reported.  Two
+// are common, such as `/:name.:ext`, and only take quadratic time.
+const MAX_ADJACENT_GROUPS = 3;
+
+function intersectCharSets(left: CharSet, right: CharSet): CharSet {
+  return complementCharSet(unionCharSets([complementCharSet(left), complementCharSet(right)]));
+}
+
+function isCharSubset(set: CharSet, of: CharSet): boolean {
+  return intersectCharSets(set, complementCharSet(of)).length === 0;
+}
+
+function literalNode(value: string): Node {
+  return {
+    kind: 'seq',
+    items: Array.from(value, (char) => {
+      const code = char.codePointAt(0)!;
+      return { kind: 'chars', set: [code, code] } as Node;
+    }),
+  };
+}
+
+function foldNode(node: Node): Node {
+  switch (node.kind) {
+    case 'chars': return { kind: 'chars', set: foldCharSet(node.set) };
+    case 'seq': return { kind: 'seq', items: node.items.map(foldNode) };
+    case 'alt': return { kind: 'alt', items: node.items.map(foldNode) };
+    case 'repeat': return { kind: 'repeat', node: foldNode(node.node), min: node.min, max: node.max };
+    case 'opaque': return node;
+  }
+}
+
+// Every character `node` may match.
+function nodeChars(node: Node): CharSet {
+  switch (node.kind) {
+    case 'chars': return node.set;
+    case 'seq':
+    case 'alt': return unionCharSets(node.items.map(nodeChars));
+    case 'repeat': return node.max === 0 ? [] : nodeChars(node.node);
+    case 'opaque': return ANY;
+  }
+}
+
+// The characters a match of `node` may start with, and whether it may be
+// empty.
+function firstChars(node: Node): { set: CharSet, nullable: boolean } {
+  switch (node.kind) {
+    case 'chars':
+      return { set: node.set, nullable: false };
+    case 'seq': {
+      const sets: CharSet[] = [];
+      for (const item of node.items) {
+        const first = firstChars(item);
+        sets.push(first.set);
+        if (!first.nullable) {
+          return { set: unionCharSets(sets), nullable: false };
+        }
+      }
+      return { set: unionCharSets(sets), nullable: true };
+    }
+    case 'alt': {
+      const firsts = node.items.map(firstChars);
+      return {
+        set: unionCharSets(firsts.map((first) => first.set)),
+        nullable: firsts.some((first) => first.nullable),
+      };
+    }
+    case 'repeat': {
+      if (node.max === 0) {
+        return { set: [], nullable: true };
+      }
+      const first = firstChars(node.node);
+      return { set: first.set, nullable: first.nullable || node.min === 0 };
+    }
+    case 'opaque':
+      return { set: ANY, nullable: true };
+  }
+}
+
+// The characters `node` may match any number of times.  Opaque nodes are
+// assertions and back references, which do not add repetitions.
+function loopChars(node: Node): CharSet {
+  switch (node.kind) {
+    case 'chars':
+    case 'opaque':
+      return [];
+    case 'seq':
+    case 'alt':
+      return unionCharSets(node.items.map(loopChars));
+    case 'repeat':
+      return node.max === Infinity ? nodeChars(node.node) : loopChars(node.node);
+  }
+}
+
+// Whether `node` contains a repetition matching a varying number of
+// characters.
+function hasVariableRepeat(node: Node): boolean {
+  switch (node.kind) {
+    case 'chars':
+    case 'opaque':
+      return false;
+    case 'seq':
+    case 'alt':
+      return node.items.some(hasVariableRepeat);
+    case 'repeat':
+      return (node.max > 1 && node.max > node.min && nodeChars(node.node).length > 0) ||
+        hasVariableRepeat(node.node);
+  }
+}
+
+// Returns whether the body of an unbounded repetition holds a variable
+// repetition that may also match the characters following it, either
+// within the body or at the start of the next iteration.
+function hasNestedQuantifier(body: Node): boolean {
+  const items = body.kind === 'seq' ? body.items : [body];
+  const next = firstChars(body).set;
+  return items.some((item, i) => {
+    if (!hasVariableRepeat(item)) {
+      return false;
+    }
+    const follow = firstChars({ kind: 'seq', items: items.slice(i + 1) });
+    const set = follow.nullable ? unionCharSets([follow.set, next]) : follow.set;
+    return intersectCharSets(nodeChars(item), set).length > 0;
+  });
+}
+
+// Returns whether an alternation in the body of an unbounded repetition
+// has two alternatives that may start with the same character.
+function hasOverlappingAlternation(node: Node): boolean {
+  switch (node.kind) {
+    case 'chars':
+    case 'opaque':
+      return false;
+    case 'seq':
+      return node.items.some(hasOverlappingAlternation);
+    case 'repeat':
+      return hasOverlappingAlternation(node.node);
+    case 'alt': {
+      const sets = node.items.map((item) => firstChars(item).set);
+      for (let i = 0; i < sets.length; ++i) {
+        for (let j = i + 1; j < sets.length; ++j) {
+          if (intersectCharSets(sets[i], sets[j]).length > 0) {
+            return true;
+          }
+        }
+      }
+      return node.items.some(hasOverlappingAlternation);
+    }
+  }
+}
+
+// Returns whether a sequence in `node` has adjacent unbounded repetitions
+// that may all match the characters between them, as in `.*.*.*`.
+function hasOverlappingQuantifiers(node: Node): boolean {
+  switch (node.kind) {
+    case 'chars':
+    case 'opaque':
+      return false;
+    case 'alt':
+      return node.items.some(hasOverlappingQuantifiers);
+    case 'repeat':
+      return hasOverlappingQuantifiers(node.node);
+    case 'seq': {
+      let length = 0;
+      let common: CharSet = [];
+      let between: CharSet = [];
+      for (const item of node.items) {
+        const chars = loopChars(item);
+        if (!chars.length) {
+          between = unionCharSets([between, nodeChars(item)]);
+          continue;
+        }
+        const overlap = intersectCharSets(common, chars);
+        if (length && overlap.length && isCharSubset(between, overlap)) {
+          common = overlap;
+          if (++length === MAX_ADJACENT_GROUPS) {
+            return true;
+          }
+        } else {
+          length = 1;
+          common = chars;
+        }
+        between = [];
+      }
+      return node.items.some(hasOverlappingQuantifiers);
+    }
+  }
+}
+
+// Returns the kinds of ambiguous repetitions found in `node`.
+function repetitionKinds(node: Node, kinds: Set<URLPatternRegExpWarningKind>) {
+  switch (node.kind) {
+    case 'seq':
+    case 'alt':
+      node.items.forEach((item) => repetitionKinds(item, kinds));
+      break;
+    case 'repeat':
+      if (node.max === Infinity) {
+        if (hasNestedQuantifier(node.node)) {
+          kinds.add('nested-quantifier');
+        }
+        if (hasOverlappingAlternation(node.node)) {
+          kinds.add('overlapping-alternation');
+        }
+      }
+      repetitionKinds(node.node, kinds);
+      break;
+  }
+}
+
+function groupName(name: string | number): string {
+  return typeof name === 'number' ? `${name}` : `'${name}'`;
+}
+
+function listNames(names: Array<string | number>): string {
+  const quoted = names.map(groupName);
+  return `${quoted.slice(0, -1).join(', ')} and ${quoted[quoted.length - 1]}`;
+}
+
+// Analyze the tokens of a single component or `searchParams` entry, named
+// by `where` in the messages.
+function analyzeTokens(tokens: Token[], ignoreCase: boolean, where: string,
+                       warn: (kind: URLPatternRegExpWarningKind, group: string | number,
+                              message: string) => void) {
+  const fold = (node: Node) => ignoreCase ? foldNode(node) : node;
+  // The unbounded groups that may all match the text between them, and the
+  // characters they may all repeat.
+  let chain: Array<string | number> = [];
+  let common: CharSet = [];
+  let between = '';
+
+  for (const token of tokens) {
+    if (typeof token === 'string') {
+      between += token;
+      continue;
+    }
+    if (!token.pattern) {
+      between += token.prefix + token.suffix;
+      continue;
+    }
+
+    let node = fold(new RegExpParser(token.pattern, Infinity).parse());
+    if (token.modifier === '+' || token.modifier === '*') {
+      const body: Node = {
+        kind: 'seq',
+        items: [fold(literalNode(token.prefix)), node, fold(literalNode(token.suffix))],
+      };
+      node = { kind: 'repeat', node: body, min: 0, max: Infinity };
+    }
+    const kinds = new Set<URLPatternRegExpWarningKind>();
+    repetitionKinds(node, kinds);
+    if (hasOverlappingQuantifiers(node)) {
+      kinds.add('overlapping-quantifiers');
+    }
+    for (const kind of kinds) {
+      warn(kind, token.name, `The regexp of group ${groupName(token.name)} in ${where} ` + (
+        kind === 'nested-quantifier' ?
+          `repeats a quantifier that can match the same text in many ways.` :
+        kind === 'overlapping-alternation' ?
+          `repeats alternatives that can start with the same character.` :
+          `has adjacent quantifiers that can split the same text in many ways.`));
+    }
+
+    between += token.prefix;
+    const chars = loopChars(node);
+    const overlap = intersectCharSets(common, chars);
+    if (!chars.length) {
+      chain = [];
+    } else if (chain.length && overlap.length &&
+               isCharSubset(nodeChars(fold(literalNode(between))), overlap)) {
+      chain.push(token.name);
+      common = overlap;
+      if (chain.length === MAX_ADJACENT_GROUPS) {
+        warn('overlapping-wildcards', chain[0],
+          `Groups ${listNames(chain)} in ${where} can split the same text in many ways.`);
+      }
+    } else {
+      chain = [token.name];
+      common = chars;
+    }
+    between = token.suffix;
+  }
+}
+
+// Returns the constructs in the regexps of the given component and
+// `searchParams` tokens that may backtrack catastrophically.
+export function analyzeRegExps(components: {[component in URLPatternComponent]?: Token[]},
+                               searchParams: {[name: string]: Token[]} | undefined,
+                               ignoreCase: boolean): URLPatternRegExpWarning[] {
+  const warnings: URLPatternRegExpWarning[] = [];
+  for (const component of Object.keys(components) as URLPatternComponent[]) {
+    analyzeTokens(components[component]!, ignoreCase, `the ${component} pattern`,
+                  (kind, group, message) => warnings.push({ kind, component, group, message }));
+  }
+  for (const name of Object.keys(searchParams || {})) {
+    analyzeTokens(searchParams![name], ignoreCase, `the searchParams pattern for '${name}'`,
+                  (kind, group, message) =>
+                    warnings.push({ kind, component: 'search', searchParam: name, group, message }));
+  }
+  return warnings;
+}
@@ -0,0 +1,339 @@
+import {
+  CharSet,
+  complementCharSet,
+  foldCharSet,
+  RegExpParser,
+} from './url-pattern-overlap';
+
+// Compilation of component regexps without the `u` flag, for engines whose
+// support for it is missing, incomplete or slow.  Patterns are written for
+// the `u` flag, so their source is rewritten to match the same strings when
+// it is compiled without it.  Code points outside the BMP are matched as
+// surrogate pairs: `\u{...}` escapes and literal astral characters become
+// pairs, classes with astral members become alternations of surrogate
+// ranges, and `.`, `\S`, `\W`, `\D` and negated classes match either a BMP
+// character or a whole pair, so that they never match half of one.
+// Canonical component values never contain lone surrogates, since the URL
+// parser percent-encodes them.
+//
+// Escapes a regexp with the `u` flag rejects, such as `\m`, are rejected
+// here too.  Unicode property escapes cannot be expressed without the flag
+// and are rejected as well.  Case folding of astral characters is not
+// applied, and negated classes with astral members are only folded for
+// ASCII letters.
+
+const SURROGATES = '\\uD800-\\uDFFF';
+const SURROGATE_PAIR = '[\\uD800-\\uDBFF][\\uDC00-\\uDFFF]';
+
+const SYNTAX_CHARACTERS = '^$\\.*+?()[]{}|/';
+
+const CONTROL_ESCAPES: {[char: string]: number} = {
+  t: 0x09,
+  n: 0x0A,
+  v: 0x0B,
+  f: 0x0C,
+  r: 0x0D,
+};
+
+// The escapes matching every astral character, and the escape matching the
+// characters they do not.
+const WIDE_CLASS_ESCAPES: {[char: string]: string} = {
+  D: 'd',
+  S: 's',
+  W: 'w',
+};
+
+let unicodeRegExps: boolean | undefined;
+
+// Whether regexps with the `u` flag work in this engine.  This is checked
+// once, the first time a pattern is compiled.
+export function supportsUnicodeRegExps(): boolean {
+  if (unicodeRegExps === undefined) {
+    try {
+      unicodeRegExps = new RegExp('^.$', 'u').test('\uD83D\uDE00') &&
+        new RegExp('^\\u{1F600}$', 'u').test('\uD83D\uDE00');
+    } catch {
+      unicodeRegExps = false;
+    }
+  }
+  return unicodeRegExps;
+}
+
+function hex(code: number): string {
+  return '\\u' + code.toString(16).toUpperCase().padStart(4, '0');
+}
+
+// Returns the surrogate pair alternatives matching the astral code points
+// from `low` to `high`.
+function surrogateRanges(low: number, high: number): string[] {
+  const range = (from: number, to: number) => from === to ? hex(from) : `[${hex(from)}-${hex(to)}]`;
+  const lead = (code: number) => 0xD800 + ((code - 0x10000) >> 10);
+  const trail = (code: number) => 0xDC00 + ((code - 0x10000) & 0x3FF);
+  if (lead(low) === lead(high)) {
+    return [hex(lead(low)) + range(trail(low), trail(high))];
+  }
+  const result: string[] = [];
+  let from = lead(low);
+  let to = lead(high);
+  if (trail(low) !== 0xDC00) {
+    result.push(hex(from++) + range(trail(low), 0xDFFF));
+  }
+  const last = trail(high) !== 0xDFFF ? hex(to--) + range(0xDC00, trail(high)) : undefined;
+  if (from <= to) {
+    result.push(range(from, to) + range(0xDC00, 0xDFFF));
+  }
+  if (last !== undefined) {
+    result.push(last);
+  }
+  return result;
+}
+
+// Returns a non-Unicode regexp matching the code points of `set`.
+function charSetSource(set: CharSet): string {
+  let bmp = '';
+  const astral: string[] = [];
+  for (let i = 0; i < set.length; i += 2) {
+    for (const [from, to] of [[0, 0xD7FF], [0xE000, 0xFFFF]]) {
+      const low = Math.max(set[i], from);
+      const high = Math.min(set[i + 1], to);
+      if (low <= high) {
+        bmp += low === high ? hex(low) : `${hex(low)}-${hex(high)}`;
+      }
+    }
+    if (set[i + 1] > 0xFFFF) {
+      astral.push(...surrogateRanges(Math.max(set[i], 0x10000), set[i + 1]));
+    }
+  }
+  const parts = bmp ? [`[${bmp}]`, ...astral] : astral;
+  if (!parts.length) {
+    return '[]';
+  }
+  return parts.length === 1 && bmp ? parts[0] : `(?:${parts.join('|')})`;
+}
+
+// Returns a non-Unicode regexp matching the single code point `code`.
+function codePointSource(code: number): string {
+  return code > 0xFFFF ? `(?:${surrogateRanges(code, code)[0]})` : hex(code);
+}
+
+// Returns a non-Unicode regexp matching what the class `[^body]` matches in
+// a regexp with the `u` flag, for a body without astral members.
+function wideClassSource(body: string): string {
+  return `(?:[^${body}${SURROGATES}]|${SURROGATE_PAIR})`;
+}
+
+interface Escape {
+  // The index following the escape.
+  end: number;
+  // The code point of an escaped character.
+  code?: number;
+  // The letter of a class escape such as `\d`.
+  classEscape?: string;
+}
+
+// Read the escape whose `\` precedes `index`, rejecting those a regexp with
+// the `u` flag rejects.  Assertions and back references have neither a code
+// point nor a class.
+function readEscape(source: string, index: number, inClass: boolean): Escape {
+  const char = source[index];
+  const rest = source.substring(index);
+  const invalid = () => new TypeError(`invalid escape '\\${char === undefined ? '' : char}'.`);
+  let match: RegExpExecArray | null;
+  switch (char) {
+    case 'd': case 'D': case 's': case 'S': case 'w': case 'W':
+      return { end: index + 1, classEscape: char };
+    case 'p': case 'P':
+      throw new TypeError(`Unicode property escapes are not supported without the 'u' flag.`);
+    case 'b':
+      return inClass ? { end: index + 1, code: 0x08 } : { end: index + 1 };
+    case 'B':
+      if (inClass) {
+        throw invalid();
+      }
+      return { end: index + 1 };
+    case 'u': {
+      match = /^u(?:\{([0-9A-Fa-f]+)\}|([0-9A-Fa-f]{4}))/.exec(rest);
+      if (!match) {
+        throw invalid();
+      }
+      let end = index + match[0].length;
+      let code = parseInt(match[1] || match[2], 16);
+      if (code > 0x10FFFF) {
+        throw invalid();
+      }
+      // A pair of surrogate escapes is a single code point.
+      const trail = /^\\u(D[C-F][0-9A-F]{2})/i.exec(source.substring(end));
+      if (match[2] && code >= 0xD800 && code <= 0xDBFF && trail) {
+        code = 0x10000 + ((code - 0xD800) << 10) + parseInt(trail[1], 16) - 0xDC00;
+        end += trail[0].length;
+      }
+      return { end, code };
+    }
+    case 'x':
+      if (!(match = /^x([0-9A-Fa-f]{2})/.exec(rest))) {
+        throw invalid();
+      }
+      return { end: index + 3, code: parseInt(match[1], 16) };
+    case 'c':
+      if (!/^c[A-Za-z]/.test(rest)) {
+        throw invalid();
+      }
+      return { end: index + 2, code: source.charCodeAt(index + 1) % 32 };
+    case '0':
+      if (/^0[0-9]/.test(rest)) {
+        throw invalid();
+      }
+      return { end: index + 1, code: 0 };
+    case 'k':
+      if (inClass || !(match = /^k<[^>]+>/.exec(rest))) {
+        throw invalid();
+      }
+      return { end: index + match[0].length };
+    default:
+      if (char !== undefined && CONTROL_ESCAPES[char] !== undefined) {
+        return { end: index + 1, code: CONTROL_ESCAPES[char] };
+      }
+      if (char !== undefined && /[1-9]/.test(char) && !inClass) {
+        return { end: index + /^[0-9]+/.exec(rest)![0].length };
+      }
+      if (char !== undefined && (SYNTAX_CHARACTERS.includes(char) || (char === '-' && inClass))) {
+        return { end: index + 1, code: char.charCodeAt(0) };
+      }
+      throw invalid();
+  }
+}
+
+// Read the class whose `[` precedes `index`, and return its non-Unicode
+// regexp and the index following it.
+function readClass(source: string, index: number, ignoreCase: boolean): { end: number, text: string } {
+  const negated = source[index] === '^';
+  if (negated) {
+    index++;
+  }
+  let body = '';
+  let astral = false;
+  let wide = false;
+
+  // Read a single class member into `body`, returning its code point if it
+  // is a single character.
+  const readAtom = (): number | undefined => {
+    if (index >= source.length) {
+      throw new TypeError(`unterminated character class.`);
+    }
+    const start = index;
+    let code: number | undefined;
+    if (source[index] === '\\') {
+      const escape = readEscape(source, index + 1, true);
+      index = escape.end;
+      code = escape.code;
+      wide = wide || (escape.classEscape !== undefined && escape.classEscape in WIDE_CLASS_ESCAPES);
+      if (code === undefined || (code <= 0xFFFF && source[start + 2] !== '{')) {
+        body += source.substring(start, index);
+        return code;
+      }
+    } else {
+      code = source.codePointAt(index)!;
+      index += code > 0xFFFF ? 2 : 1;
+      if (code <= 0xFFFF) {
+        body += source[start];
+        return code;
+      }
+    }
+    astral = astral || code > 0xFFFF;
+    body += code > 0xFFFF ? `\\u{${code.toString(16)}}` : hex(code);
+    return code;
+  };
+
+  while (source[index] !== ']') {
+    const low = readAtom();
+    if (source[index] === '-' && index + 1 < source.length && source[index + 1] !== ']') {
+      body += '-';
+      index++;
+      const high = readAtom();
+      if (low === undefined || high === undefined || high < low) {
+        throw new TypeError(`invalid character class range.`);
+      }
+    }
+  }
+  index++;
+
+  if (astral) {
+    const node = new RegExpParser(`[${body}]`, Infinity).parse();
+    if (node.kind !== 'chars') {
+      throw new TypeError(`invalid character class.`);
+    }
+    let set = ignoreCase ? foldCharSet(node.set) : node.set;
+    if (negated) {
+      set = complementCharSet(set);
+    }
+    return { end: index, text: charSetSource(set) };
+  }
+  // Classes match astral characters when they are negated or contain a
+  // negated class escape, but not both.
+  if (negated === wide) {
+    return { end: index, text: `[${negated ? '^' : ''}${body}]` };
+  }
+  if (negated) {
+    return { end: index, text: wideClassSource(body) };
+  }
+  return { end: index, text: `(?:(?![${SURROGATES}])[${body}]|${SURROGATE_PAIR})` };
+}
+
+// Rewrite the source of a regexp written for the `u` flag into a source
+// matching the same strings without it.  Throws a `TypeError` for sources
+// a regexp with the `u` flag would reject, and for those that cannot be
+// rewritten.
+export function toNonUnicodeSource(source: string, ignoreCase: boolean = false): string {
+  let output = '';
+  let index = 0;
+  while (index < source.length) {
+    const start = index;
+    const char = source[index++];
+    switch (char) {
+      case '\\': {
+        const escape = readEscape(source, index, false);
+        index = escape.end;
+        if (escape.classEscape !== undefined && escape.classEscape in WIDE_CLASS_ESCAPES) {
+          output += wideClassSource(`\\${WIDE_CLASS_ESCAPES[escape.classEscape]}`);
+        } else if (escape.code !== undefined && (escape.code > 0xFFFF || source[start + 2] === '{')) {
+          output += codePointSource(escape.code);
+        } else {
+          output += source.substring(start, index);
+        }
+        break;
+      }
+      case '[': {
+        const result = readClass(source, index, ignoreCase);
+        index = result.end;
+        output += result.text;
+        break;
+      }
+      case '.':
+        output += wideClassSource('\\n\\r\\u2028\\u2029');
+        break;
+      case '{': {
+        // Braces are only allowed in quantifiers.
+        const match = /^\{[0-9]+(,[0-9]*)?\}/.exec(source.substring(start));
+        if (!match) {
+          throw new TypeError(`lone quantifier brackets.`);
+        }
+        index = start + match[0].length;
+        output += match[0];
+        break;
+      }
+      case '}':
+      case ']':
+        throw new TypeError(`unmatched '${char}'.`);
+      default: {
+        const code = source.codePointAt(start)!;
+        if (code > 0xFFFF) {
+          index++;
+          output += codePointSource(code);
+        } else {
+          output += char;
+        }
+      }
+    }
+  }
+  return output;
+}
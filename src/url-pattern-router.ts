@@ -0,0 +1,270 @@
+import { URLPattern } from 'urlpattern-polyfill-no-unicode/urlpattern';
+import {
+  NodeRequestLike,
+  NodeResponseLike,
+  URLPatternHandler,
+  URLPatternInit,
+  URLPatternMiddleware,
+  URLPatternResult,
+  URLPatternRouterOptions,
+} from './url-pattern.interfaces';
+
+// A pattern the router can match requests with.  Besides the `URLPattern`
+// of this build, this may be one from the ASCII build or a native one.
+type PatternLike = Pick<URLPattern, 'exec' | 'test'>;
+
+// A route, or a router mounted under a pathname prefix.  Routes with the
+// method `*` handle every method.
+type Entry =
+  { pattern: PatternLike, method: string, handler: URLPatternHandler } |
+  { pattern: URLPattern, router: URLPatternRouter };
+
+// Whether `value` is a pattern rather than an init dictionary.  Patterns are
+// recognized by their methods, so that those constructed by another build,
+// with options an init dictionary cannot hold, are kept as they are.
+function isPatternLike(value: any): value is PatternLike {
+  return typeof value.exec === 'function' && typeof value.test === 'function';
+}
+
+// Copy a result, adding the groups matched by the prefixes of the routers
+// it was mounted under to its pathname groups.
+function withGroups(result: URLPatternResult, groups: URLPatternResult['pathname']['groups']) {
+  return {
+    ...result,
+    pathname: { ...result.pathname, groups: { ...groups, ...result.pathname.groups } },
+  };
+}
+
+// Throws unless the runtime has the Fetch API globals the router builds its
+// requests and responses with, which Node.js only has from version 18.
+function checkFetchAPI(method: string) {
+  if (typeof Request !== 'function' || typeof Response !== 'function' || typeof Headers !== 'function') {
+    throw new TypeError(`Failed to execute '${method}' on 'URLPatternRouter': ` +
+      `this runtime has no Fetch API (Request, Response and Headers).`);
+  }
+}
+
+// Dispatches Fetch API requests to the handler of the first route matching
+// their URL and method.  Routes and mounted routers are tried in the order
+// they were added.  A router mounted under a prefix handles every request
+// whose pathname starts with it, matching its routes against the rest of
+// the pathname, so the routes added after it never see those requests.
+// Requests whose URL matches routes of other methods only get a 405
+// response listing them in an `Allow` header.  `GET` routes also handle
+// `HEAD` requests, with the response body removed, unless a `HEAD` route
+// added before them matches.
+export class URLPatternRouter {
+  private entries: Entry[] = [];
+  private middleware: URLPatternMiddleware[] = [];
+  private notFound: (request: Request) => Response | Promise<Response>;
+
+  constructor(options: URLPatternRouterOptions = {}) {
+    this.notFound = options.notFound || (() => new Response(null, { status: 404 }));
+  }
+
+  // Add a route.  String patterns are pathname patterns.
+  add(method: string, pattern: URLPattern | URLPatternInit | string, handler: URLPatternHandler): this {
+    if (typeof handler !== 'function') {
+      throw new TypeError(`Failed to execute 'add' on 'URLPatternRouter': parameter 3 is not a function.`);
+    }
+    let instance: PatternLike;
+    try {
+      if (typeof pattern === 'string') {
+        instance = new URLPattern({ pathname: pattern });
+      } else if (pattern && typeof pattern === 'object') {
+        instance = isPatternLike(pattern) ? pattern : new URLPattern(pattern);
+      } else {
+        throw new TypeError(`parameter 2 is not a URLPattern, URLPatternInit or string.`);
+      }
+    } catch (err: any) {
+      throw new TypeError(`Failed to execute 'add' on 'URLPatternRouter': ${err.message}`);
+    }
+    this.entries.push({ pattern: instance, method: method.toUpperCase(), handler });
+    return this;
+  }
+
+  get(pattern: URLPattern | URLPatternInit | string, handler: URLPatternHandler): this {
+    return this.add('GET', pattern, handler);
+  }
+
+  head(pattern: URLPattern | URLPatternInit | string, handler: URLPatternHandler): this {
+    return this.add('HEAD', pattern, handler);
+  }
+
+  post(pattern: URLPattern | URLPatternInit | string, handler: URLPatternHandler): this {
+    return this.add('POST', pattern, handler);
+  }
+
+  put(pattern: URLPattern | URLPatternInit | string, handler: URLPatternHandler): this {
+    return this.add('PUT', pattern, handler);
+  }
+
+  patch(pattern: URLPattern | URLPatternInit | string, handler: URLPatternHandler): this {
+    return this.add('PATCH', pattern, handler);
+  }
+
+  delete(pattern: URLPattern | URLPatternInit | string, handler: URLPatternHandler): this {
+    return this.add('DELETE', pattern, handler);
+  }
+
+  options(pattern: URLPattern | URLPatternInit | string, handler: URLPatternHandler): this {
+    return this.add('OPTIONS', pattern, handler);
+  }
+
+  all(pattern: URLPattern | URLPatternInit | string, handler: URLPatternHandler): this {
+    return this.add('*', pattern, handler);
+  }
+
+  // Add a middleware, which runs for every request dispatched to this
+  // router, in the order they were added.
+  use(middleware: URLPatternMiddleware): this {
+    if (typeof middleware !== 'function') {
+      throw new TypeError(`Failed to execute 'use' on 'URLPatternRouter': parameter 1 is not a function.`);
+    }
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  // Mount a router under a pathname prefix, which may have groups of its
+  // own.  They are added to the pathname groups of its routes' results.
+  mount(prefix: string, router: URLPatternRouter): this {
+    if (!(router instanceof URLPatternRouter) || router === this) {
+      throw new TypeError(`Failed to execute 'mount' on 'URLPatternRouter': parameter 2 is not another URLPatternRouter.`);
+    }
+    let pattern: URLPattern;
+    try {
+      pattern = new URLPattern({ pathname: prefix }, { ignoreCase: false, match: 'prefix' });
+    } catch (err: any) {
+      throw new TypeError(`Failed to execute 'mount' on 'URLPatternRouter': ${err.message}`);
+    }
+    this.entries.push({ pattern, router });
+    return this;
+  }
+
+  handle(request: Request): Promise<Response> {
+    checkFetchAPI('handle');
+    return this.dispatch(request, new URL(request.url), {});
+  }
+
+  // Returns a `node:http` request listener handling requests with this
+  // router.  Handler errors are answered with an empty 500 response.
+  toNodeListener(): (request: NodeRequestLike, response: NodeResponseLike) => Promise<void> {
+    checkFetchAPI('toNodeListener');
+    return async (request, response) => {
+      try {
+        await writeNodeResponse(await this.handle(await toRequest(request)), request, response);
+      } catch (err: any) {
+        if (response.headersSent) {
+          response.destroy(err);
+        } else {
+          response.writeHead(500, {});
+          response.end();
+        }
+      }
+    };
+  }
+
+  // Run the middleware, then the first matching route.  `url` is the request
+  // URL with the prefixes of the routers this one is mounted under removed
+  // from its pathname, and `groups` are the groups they matched.
+  private async dispatch(request: Request, url: URL,
+                         groups: URLPatternResult['pathname']['groups']): Promise<Response> {
+    let position = 0;
+    const next = async (): Promise<Response> => {
+      if (position < this.middleware.length) {
+        return this.middleware[position++](request, next);
+      }
+      return this.route(request, url, groups);
+    };
+    return next();
+  }
+
+  private async route(request: Request, url: URL,
+                      groups: URLPatternResult['pathname']['groups']): Promise<Response> {
+    const method = request.method.toUpperCase();
+    const allowed = new Set<string>();
+    for (const entry of this.entries) {
+      const result = entry.pattern.exec(url);
+      if (!result) {
+        continue;
+      }
+      if ('router' in entry) {
+        const rest = new URL(url.href);
+        rest.pathname = result.pathname.rest || '/';
+        return entry.router.dispatch(request, rest, { ...groups, ...result.pathname.groups });
+      }
+      if (entry.method === '*' || entry.method === method) {
+        return entry.handler(request, withGroups(result, groups));
+      }
+      if (entry.method === 'GET' && method === 'HEAD') {
+        const response = await entry.handler(request, withGroups(result, groups));
+        return new Response(null, response);
+      }
+      allowed.add(entry.method);
+      if (entry.method === 'GET') {
+        allowed.add('HEAD');
+      }
+    }
+    if (allowed.size) {
+      return new Response(null, { status: 405, headers: { Allow: [...allowed].join(', ') } });
+    }
+    return this.notFound(request);
+  }
+}
+
+async function toRequest(request: NodeRequestLike): Promise<Request> {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(request.headers)) {
+    for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+      headers.append(name, item);
+    }
+  }
+  const protocol = request.socket?.encrypted ? 'https' : 'http';
+  const url = `${protocol}://${headers.get('host') || 'localhost'}${request.url || '/'}`;
+  const method = request.method || 'GET';
+  let body: Uint8Array | undefined;
+  if (method !== 'GET' && method !== 'HEAD') {
+    const chunks: Uint8Array[] = [];
+    for await (const chunk of request) {
+      chunks.push(typeof chunk === 'string' ? new TextEncoder().encode(chunk) : chunk);
+    }
+    body = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+      body.set(chunk, offset);
+      offset += chunk.length;
+    }
+  }
+  return new Request(url, { method, headers, body });
+}
+
+async function writeNodeResponse(response: Response, request: NodeRequestLike,
+                                 target: NodeResponseLike) {
+  const headers: { [name: string]: string | string[] } = {};
+  response.headers.forEach((value, name) => {
+    const existing = headers[name];
+    if (existing === undefined) {
+      headers[name] = value;
+    } else {
+      headers[name] = ([] as string[]).concat(existing, value);
+    }
+  });
+  if (response.statusText) {
+    target.writeHead(response.status, response.statusText, headers);
+  } else {
+    target.writeHead(response.status, headers);
+  }
+  if (response.body && request.method !== 'HEAD') {
+    const reader = response.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      if (!target.write(value)) {
+        await new Promise<void>((resolve) => target.once('drain', resolve));
+      }
+    }
+  }
+  target.end();
+}
@@ -0,0 +1,65 @@
+import { URLPatternComponent } from './url-pattern.interfaces';
+
+// Render `source` with a caret under the character at `index`.
+export function formatCaret(source: string, index: number): string {
+  return `\n  ${source}\n  ${' '.repeat(index)}^`;
+}
+
+// The error thrown for an invalid pattern.  It is a `TypeError` so existing
+// callers keep working, but it also records where the mistake is.  The
+// path-to-regexp `lexer()` and `parse()` functions throw it with a position
+// in the component pattern, and the `URLPattern` constructor then rethrows
+// it with the component and the position in the original constructor
+// string, if there was one.
+export class URLPatternSyntaxError extends TypeError {
+  // The description of the problem without any location information.
+  public readonly reason: string;
+
+  // The component pattern string containing the error.
+  public readonly pattern: string;
+
+  // The offset of the offending token within `pattern`.
+  public readonly index: number;
+
+  // The offending token.  This is empty when the pattern ended early.
+  public readonly token: string;
+
+  // The component the pattern belongs to.  This is only known once the
+  // error has been rethrown by the `URLPattern` constructor.
+  public readonly component?: URLPatternComponent;
+
+  // The constructor string and the offset of the offending token within it.
+  // These are only set when the `URLPattern` was constructed from a string.
+  public readonly input?: string;
+  public readonly inputIndex?: number;
+
+  public constructor(reason: string, pattern: string, index: number,
+                     token: string = pattern.substr(index, 1),
+                     message: string = reason) {
+    super(message);
+    this.name = 'URLPatternSyntaxError';
+    this.reason = reason;
+    this.pattern = pattern;
+    this.index = index;
+    this.token = token;
+  }
+
+  // Return a copy of this error attributed to the given component.  When
+  // `input` is given the caret is drawn under the constructor string,
+  // otherwise under the component pattern.
+  public withComponent(component: URLPatternComponent, input?: string,
+                       inputIndex?: number): URLPatternSyntaxError {
+    let message = `Failed to construct 'URLPattern': invalid ${component} ` +
+      `pattern '${this.pattern}'. ${this.reason}`;
+    if (input !== undefined && inputIndex !== undefined) {
+      message += formatCaret(input, inputIndex);
+    } else {
+      message += formatCaret(this.pattern, this.index);
+    }
+
+    const error = new URLPatternSyntaxError(this.reason, this.pattern, this.index,
+                                            this.token, message);
+    Object.assign(error, { component, input, inputIndex });
+    return error;
+  }
+}
@@ -0,0 +1,1087 @@
+import { domainToASCII } from './url-pattern-idna';
+import { URLLike, URLPatternURLParser } from './url-pattern.interfaces';
+
+// A URL parser following the WHATWG URL standard, used in place of the
+// global `URL` when it is missing or does not pass a conformance check, or
+// when selected with `URLPattern.setURLParser()`.  It implements the basic
+// URL parser with its state overrides, which the component setters use, the
+// host parser and the URL serializer.  Domains are converted with the
+// built-in IDNA support of `url-pattern-idna`, and the query is always
+// encoded as UTF-8.
+
+const SPECIAL_PORTS: {[scheme: string]: number | null} = {
+  ftp: 21,
+  file: null,
+  http: 80,
+  https: 443,
+  ws: 80,
+  wss: 443,
+};
+
+// Percent-encode sets, as predicates over code points.
+type EncodeSet = (code: number) => boolean;
+
+const C0_CONTROL_SET: EncodeSet = (code) => code < 0x20 || code > 0x7E;
+const FRAGMENT_SET: EncodeSet = (code) => C0_CONTROL_SET(code) || ' "<>`'.includes(String.fromCharCode(code));
+const QUERY_SET: EncodeSet = (code) => C0_CONTROL_SET(code) || ' "#<>'.includes(String.fromCharCode(code));
+const SPECIAL_QUERY_SET: EncodeSet = (code) => QUERY_SET(code) || code === 0x27;
+const PATH_SET: EncodeSet = (code) => QUERY_SET(code) || '?`{}'.includes(String.fromCharCode(code));
+const USERINFO_SET: EncodeSet = (code) => PATH_SET(code) || '/:;=@[\\]^|'.includes(String.fromCharCode(code));
+
+const FORBIDDEN_HOST = /[\0\t\n\r #/:<>?@[\\\]^|]/;
+const FORBIDDEN_DOMAIN = /[\0-\x1F #%/:<>?@[\\\]^|\x7F]/;
+
+const ASCII_ALPHA = /^[A-Za-z]$/;
+const ASCII_DIGIT = /^[0-9]$/;
+const SCHEME_CHAR = /^[A-Za-z0-9+\-.]$/;
+const WINDOWS_DRIVE_LETTER = /^[A-Za-z][:|]$/;
+const NORMALIZED_WINDOWS_DRIVE_LETTER = /^[A-Za-z]:$/;
+const STARTS_WITH_WINDOWS_DRIVE_LETTER = /^[A-Za-z][:|](?:$|[/\\?#])/;
+const SINGLE_DOT = /^(?:\.|%2e)$/i;
+const DOUBLE_DOT = /^(?:\.|%2e)(?:\.|%2e)$/i;
+
+// Encode a string as UTF-8.  Lone surrogates are encoded as U+FFFD.
+function utf8Encode(input: string): number[] {
+  const bytes: number[] = [];
+  for (const char of input) {
+    let code = char.codePointAt(0)!;
+    if (code >= 0xD800 && code <= 0xDFFF) {
+      code = 0xFFFD;
+    }
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xC0 | (code >> 6), 0x80 | (code & 0x3F));
+    } else if (code < 0x10000) {
+      bytes.push(0xE0 | (code >> 12), 0x80 | ((code >> 6) & 0x3F), 0x80 | (code & 0x3F));
+    } else {
+      bytes.push(0xF0 | (code >> 18), 0x80 | ((code >> 12) & 0x3F),
+                 0x80 | ((code >> 6) & 0x3F), 0x80 | (code & 0x3F));
+    }
+  }
+  return bytes;
+}
+
+// Decode UTF-8 without a BOM, replacing each invalid sequence with U+FFFD as
+// the Encoding standard does.
+function utf8Decode(bytes: number[]): string {
+  const codes: number[] = [];
+  for (let i = 0; i < bytes.length;) {
+    const byte = bytes[i++];
+    if (byte < 0x80) {
+      codes.push(byte);
+      continue;
+    }
+    let needed: number;
+    let code: number;
+    let lower = 0x80;
+    let upper = 0xBF;
+    if (byte >= 0xC2 && byte <= 0xDF) {
+      needed = 1;
+      code = byte & 0x1F;
+    } else if (byte >= 0xE0 && byte <= 0xEF) {
+      needed = 2;
+      code = byte & 0xF;
+      lower = byte === 0xE0 ? 0xA0 : lower;
+      upper = byte === 0xED ? 0x9F : upper;
+    } else if (byte >= 0xF0 && byte <= 0xF4) {
+      needed = 3;
+      code = byte & 0x7;
+      lower = byte === 0xF0 ? 0x90 : lower;
+      upper = byte === 0xF4 ? 0x8F : upper;
+    } else {
+      codes.push(0xFFFD);
+      continue;
+    }
+    for (; needed > 0; --needed) {
+      const next = bytes[i];
+      if (next === undefined || next < lower || next > upper) {
+        code = 0xFFFD;
+        break;
+      }
+      code = (code << 6) | (next & 0x3F);
+      lower = 0x80;
+      upper = 0xBF;
+      i++;
+    }
+    codes.push(code);
+  }
+  let output = '';
+  for (let i = 0; i < codes.length; i += 0x1000) {
+    output += String.fromCodePoint(...codes.slice(i, i + 0x1000));
+  }
+  return output;
+}
+
+function percentEncodeByte(byte: number): string {
+  return '%' + byte.toString(16).toUpperCase().padStart(2, '0');
+}
+
+// UTF-8 percent-encode the code points of `input` in `set`.
+function percentEncode(input: string, set: EncodeSet): string {
+  let output = '';
+  for (const char of input) {
+    const code = char.codePointAt(0)!;
+    output += set(code) ? utf8Encode(char).map(percentEncodeByte).join('') : char;
+  }
+  return output;
+}
+
+// Percent-decode the UTF-8 encoding of `input` into bytes.
+function percentDecode(input: string): number[] {
+  const bytes = utf8Encode(input);
+  const output: number[] = [];
+  for (let i = 0; i < bytes.length; ++i) {
+    const hex = String.fromCharCode(bytes[i + 1], bytes[i + 2]);
+    if (bytes[i] === 0x25 && i + 2 < bytes.length && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      output.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      output.push(bytes[i]);
+    }
+  }
+  return output;
+}
+
+// Parse a part of an IPv4 address, returning NaN on failure.
+function parseIPv4Number(input: string): number {
+  if (input === '') {
+    return NaN;
+  }
+  let radix = 10;
+  if (/^0[xX]/.test(input)) {
+    input = input.substring(2);
+    radix = 16;
+  } else if (input.length > 1 && input[0] === '0') {
+    input = input.substring(1);
+    radix = 8;
+  }
+  if (input === '') {
+    return 0;
+  }
+  const digits = radix === 16 ? /^[0-9A-Fa-f]+$/ : radix === 8 ? /^[0-7]+$/ : /^[0-9]+$/;
+  return digits.test(input) ? parseInt(input, radix) : NaN;
+}
+
+function endsInANumber(input: string): boolean {
+  const parts = input.split('.');
+  if (parts[parts.length - 1] === '') {
+    if (parts.length === 1) {
+      return false;
+    }
+    parts.pop();
+  }
+  const last = parts[parts.length - 1];
+  return /^[0-9]+$/.test(last) || !isNaN(parseIPv4Number(last));
+}
+
+function parseIPv4(input: string): string {
+  const parts = input.split('.');
+  if (parts[parts.length - 1] === '' && parts.length > 1) {
+    parts.pop();
+  }
+  if (parts.length > 4) {
+    throw new TypeError(`Invalid IPv4 address '${input}'.`);
+  }
+  const numbers = parts.map(parseIPv4Number);
+  const last = numbers[numbers.length - 1];
+  if (numbers.some((number, i) => isNaN(number) || (i < numbers.length - 1 && number > 255)) ||
+      last >= 256 ** (5 - numbers.length)) {
+    throw new TypeError(`Invalid IPv4 address '${input}'.`);
+  }
+  let address = last;
+  for (let i = 0; i < numbers.length - 1; ++i) {
+    address += numbers[i] * 256 ** (3 - i);
+  }
+  const octets: number[] = [];
+  for (let i = 0; i < 4; ++i) {
+    octets.unshift(address % 256);
+    address = Math.floor(address / 256);
+  }
+  return octets.join('.');
+}
+
+function parseIPv6(input: string): number[] {
+  const invalid = () => new TypeError(`Invalid IPv6 address '${input}'.`);
+  const address = [0, 0, 0, 0, 0, 0, 0, 0];
+  let pieceIndex = 0;
+  let compress: number | null = null;
+  let pointer = 0;
+  const c = () => input[pointer];
+  const isHex = (char: string | undefined) => char !== undefined && /^[0-9A-Fa-f]$/.test(char);
+  const isDigit = (char: string | undefined) => char !== undefined && ASCII_DIGIT.test(char);
+
+  if (c() === ':') {
+    if (input[pointer + 1] !== ':') {
+      throw invalid();
+    }
+    pointer += 2;
+    compress = ++pieceIndex;
+  }
+  while (c() !== undefined) {
+    if (pieceIndex === 8) {
+      throw invalid();
+    }
+    if (c() === ':') {
+      if (compress !== null) {
+        throw invalid();
+      }
+      pointer++;
+      compress = ++pieceIndex;
+      continue;
+    }
+    let value = 0;
+    let length = 0;
+    while (length < 4 && isHex(c())) {
+      value = value * 0x10 + parseInt(c(), 16);
+      pointer++;
+      length++;
+    }
+    if (c() === '.') {
+      // An IPv4 address in the last two pieces.
+      if (length === 0) {
+        throw invalid();
+      }
+      pointer -= length;
+      if (pieceIndex > 6) {
+        throw invalid();
+      }
+      let numbersSeen = 0;
+      while (c() !== undefined) {
+        let ipv4Piece: number | null = null;
+        if (numbersSeen > 0) {
+          if (c() === '.' && numbersSeen < 4) {
+            pointer++;
+          } else {
+            throw invalid();
+          }
+        }
+        if (!isDigit(c())) {
+          throw invalid();
+        }
+        while (isDigit(c())) {
+          const number = parseInt(c(), 10);
+          if (ipv4Piece === null) {
+            ipv4Piece = number;
+          } else if (ipv4Piece === 0) {
+            throw invalid();
+          } else {
+            ipv4Piece = ipv4Piece * 10 + number;
+          }
+          if (ipv4Piece > 255) {
+            throw invalid();
+          }
+          pointer++;
+        }
+        address[pieceIndex] = address[pieceIndex] * 0x100 + ipv4Piece!;
+        numbersSeen++;
+        if (numbersSeen === 2 || numbersSeen === 4) {
+          pieceIndex++;
+        }
+      }
+      if (numbersSeen !== 4) {
+        throw invalid();
+      }
+      break;
+    } else if (c() === ':') {
+      pointer++;
+      if (c() === undefined) {
+        throw invalid();
+      }
+    } else if (c() !== undefined) {
+      throw invalid();
+    }
+    address[pieceIndex++] = value;
+  }
+  if (compress !== null) {
+    let swaps = pieceIndex - compress;
+    pieceIndex = 7;
+    while (pieceIndex !== 0 && swaps > 0) {
+      const piece = address[compress + swaps - 1];
+      address[compress + swaps - 1] = address[pieceIndex];
+      address[pieceIndex] = piece;
+      pieceIndex--;
+      swaps--;
+    }
+  } else if (pieceIndex !== 8) {
+    throw invalid();
+  }
+  return address;
+}
+
+function serializeIPv6(address: number[]): string {
+  // Compress the first longest run of two or more zero pieces.
+  let compress = -1;
+  let longest = 1;
+  for (let i = 0; i < 8;) {
+    let end = i;
+    while (end < 8 && address[end] === 0) {
+      end++;
+    }
+    if (end - i > longest) {
+      compress = i;
+      longest = end - i;
+    }
+    i = end === i ? i + 1 : end;
+  }
+  let output = '';
+  let ignoreZero = false;
+  for (let i = 0; i < 8; ++i) {
+    if (ignoreZero && address[i] === 0) {
+      continue;
+    }
+    ignoreZero = false;
+    if (compress === i) {
+      output += i === 0 ? '::' : ':';
+      ignoreZero = true;
+      continue;
+    }
+    output += address[i].toString(16);
+    if (i !== 7) {
+      output += ':';
+    }
+  }
+  return output;
+}
+
+// Parse and serialize a host.  Throws a `TypeError` for invalid hosts.
+function parseHost(input: string, isOpaque: boolean): string {
+  if (input.startsWith('[')) {
+    if (!input.endsWith(']')) {
+      throw new TypeError(`Invalid IPv6 address '${input}'.`);
+    }
+    return `[${serializeIPv6(parseIPv6(input.substring(1, input.length - 1)))}]`;
+  }
+  if (isOpaque) {
+    if (FORBIDDEN_HOST.test(input)) {
+      throw new TypeError(`Invalid host '${input}'.`);
+    }
+    return percentEncode(input, C0_CONTROL_SET);
+  }
+  const domain = utf8Decode(percentDecode(input));
+  const asciiDomain = domainToASCII(domain);
+  if (asciiDomain === '' || FORBIDDEN_DOMAIN.test(asciiDomain)) {
+    throw new TypeError(`Invalid host '${input}'.`);
+  }
+  return endsInANumber(asciiDomain) ? parseIPv4(asciiDomain) : asciiDomain;
+}
+
+type State =
+  | 'scheme start' | 'scheme' | 'no scheme' | 'special relative or authority'
+  | 'path or authority' | 'relative' | 'relative slash' | 'special authority slashes'
+  | 'special authority ignore slashes' | 'authority' | 'host' | 'hostname' | 'port'
+  | 'file' | 'file slash' | 'file host' | 'path start' | 'path' | 'opaque path'
+  | 'query' | 'fragment';
+
+interface URLRecord {
+  scheme: string;
+  username: string;
+  password: string;
+  host: string | null;
+  port: number | null;
+  // A list of segments, or a string for URLs with an opaque path.
+  path: string[] | string;
+  query: string | null;
+  fragment: string | null;
+}
+
+function isSpecial(url: URLRecord): boolean {
+  return Object.prototype.hasOwnProperty.call(SPECIAL_PORTS, url.scheme);
+}
+
+function hasCredentials(url: URLRecord): boolean {
+  return url.username !== '' || url.password !== '';
+}
+
+function cannotHaveCredentialsOrPort(url: URLRecord): boolean {
+  return url.host === null || url.host === '' || url.scheme === 'file';
+}
+
+function shortenPath(url: URLRecord) {
+  const path = url.path as string[];
+  if (url.scheme === 'file' && path.length === 1 && NORMALIZED_WINDOWS_DRIVE_LETTER.test(path[0])) {
+    return;
+  }
+  path.pop();
+}
+
+// The basic URL parser.  Without a state override it returns a new URL
+// record and throws a `TypeError` for invalid URLs.  With one it modifies
+// `url` and returns it, or returns undefined where the standard returns
+// failure, in which case the setter leaves the URL alone.
+function parse(input: string, base: URLRecord | null, url?: URLRecord,
+               stateOverride?: State): URLRecord | undefined {
+  if (!url) {
+    url = {
+      scheme: '',
+      username: '',
+      password: '',
+      host: null,
+      port: null,
+      path: [],
+      query: null,
+      fragment: null,
+    };
+    input = input.replace(/^[\0-\x20]+|[\0-\x20]+$/g, '');
+  }
+  input = input.replace(/[\t\n\r]/g, '');
+
+  const failure = () => {
+    if (stateOverride) {
+      return undefined;
+    }
+    throw new TypeError(`Invalid URL '${input}'.`);
+  };
+
+  const codes = Array.from(input);
+  let state: State = stateOverride || 'scheme start';
+  let buffer = '';
+  let atSignSeen = false;
+  let insideBrackets = false;
+  let passwordTokenSeen = false;
+
+  for (let pointer = 0; pointer <= codes.length; ++pointer) {
+    const c: string | undefined = codes[pointer];
+    switch (state) {
+      case 'scheme start':
+        if (c !== undefined && ASCII_ALPHA.test(c)) {
+          buffer += c.toLowerCase();
+          state = 'scheme';
+        } else if (!stateOverride) {
+          state = 'no scheme';
+          pointer--;
+        } else {
+          return failure();
+        }
+        break;
+
+      case 'scheme':
+        if (c !== undefined && SCHEME_CHAR.test(c)) {
+          buffer += c.toLowerCase();
+        } else if (c === ':') {
+          if (stateOverride) {
+            const special = Object.prototype.hasOwnProperty.call(SPECIAL_PORTS, buffer);
+            if (isSpecial(url) !== special ||
+                ((hasCredentials(url) || url.port !== null) && buffer === 'file') ||
+                (url.scheme === 'file' && url.host === '')) {
+              return url;
+            }
+          }
+          url.scheme = buffer;
+          if (stateOverride) {
+            if (url.port === SPECIAL_PORTS[url.scheme]) {
+              url.port = null;
+            }
+            return url;
+          }
+          buffer = '';
+          if (url.scheme === 'file') {
+            state = 'file';
+          } else if (isSpecial(url) && base && base.scheme === url.scheme) {
+            state = 'special relative or authority';
+          } else if (isSpecial(url)) {
+            state = 'special authority slashes';
+          } else if (codes[pointer + 1] === '/') {
+            state = 'path or authority';
+            pointer++;
+          } else {
+            url.path = '';
+            state = 'opaque path';
+          }
+        } else if (!stateOverride) {
+          buffer = '';
+          state = 'no scheme';
+          pointer = -1;
+        } else {
+          return failure();
+        }
+        break;
+
+      case 'no scheme':
+        if (!base || (typeof base.path === 'string' && c !== '#')) {
+          return failure();
+        } else if (typeof base.path === 'string' && c === '#') {
+          url.scheme = base.scheme;
+          url.path = base.path;
+          url.query = base.query;
+          url.fragment = '';
+          state = 'fragment';
+        } else {
+          state = base.scheme !== 'file' ? 'relative' : 'file';
+          pointer--;
+        }
+        break;
+
+      case 'special relative or authority':
+        if (c === '/' && codes[pointer + 1] === '/') {
+          state = 'special authority ignore slashes';
+          pointer++;
+        } else {
+          state = 'relative';
+          pointer--;
+        }
+        break;
+
+      case 'path or authority':
+        if (c === '/') {
+          state = 'authority';
+        } else {
+          state = 'path';
+          pointer--;
+        }
+        break;
+
+      case 'relative':
+        url.scheme = base!.scheme;
+        if (c === '/' || (isSpecial(url) && c === '\\')) {
+          state = 'relative slash';
+        } else {
+          url.username = base!.username;
+          url.password = base!.password;
+          url.host = base!.host;
+          url.port = base!.port;
+          url.path = (base!.path as string[]).slice();
+          url.query = base!.query;
+          if (c === '?') {
+            url.query = '';
+            state = 'query';
+          } else if (c === '#') {
+            url.fragment = '';
+            state = 'fragment';
+          } else if (c !== undefined) {
+            url.query = null;
+            shortenPath(url);
+            state = 'path';
+            pointer--;
+          }
+        }
+        break;
+
+      case 'relative slash':
+        if (isSpecial(url) && (c === '/' || c === '\\')) {
+          state = 'special authority ignore slashes';
+        } else if (c === '/') {
+          state = 'authority';
+        } else {
+          url.username = base!.username;
+          url.password = base!.password;
+          url.host = base!.host;
+          url.port = base!.port;
+          state = 'path';
+          pointer--;
+        }
+        break;
+
+      case 'special authority slashes':
+        if (c === '/' && codes[pointer + 1] === '/') {
+          pointer++;
+        } else {
+          pointer--;
+        }
+        state = 'special authority ignore slashes';
+        break;
+
+      case 'special authority ignore slashes':
+        if (c !== '/' && c !== '\\') {
+          state = 'authority';
+          pointer--;
+        }
+        break;
+
+      case 'authority':
+        if (c === '@') {
+          if (atSignSeen) {
+            buffer = '%40' + buffer;
+          }
+          atSignSeen = true;
+          for (const char of buffer) {
+            if (char === ':' && !passwordTokenSeen) {
+              passwordTokenSeen = true;
+              continue;
+            }
+            const encoded = percentEncode(char, USERINFO_SET);
+            if (passwordTokenSeen) {
+              url.password += encoded;
+            } else {
+              url.username += encoded;
+            }
+          }
+          buffer = '';
+        } else if (c === undefined || c === '/' || c === '?' || c === '#' ||
+                   (isSpecial(url) && c === '\\')) {
+          if (atSignSeen && buffer === '') {
+            return failure();
+          }
+          pointer -= Array.from(buffer).length + 1;
+          buffer = '';
+          state = 'host';
+        } else {
+          buffer += c;
+        }
+        break;
+
+      case 'host':
+      case 'hostname':
+        if (stateOverride && url.scheme === 'file') {
+          pointer--;
+          state = 'file host';
+        } else if (c === ':' && !insideBrackets) {
+          if (buffer === '' || stateOverride === 'hostname') {
+            return failure();
+          }
+          url.host = parseHost(buffer, !isSpecial(url));
+          buffer = '';
+          state = 'port';
+        } else if (c === undefined || c === '/' || c === '?' || c === '#' ||
+                   (isSpecial(url) && c === '\\')) {
+          pointer--;
+          if (isSpecial(url) && buffer === '') {
+            return failure();
+          } else if (stateOverride && buffer === '' &&
+                     (hasCredentials(url) || url.port !== null)) {
+            return failure();
+          }
+          url.host = parseHost(buffer, !isSpecial(url));
+          buffer = '';
+          state = 'path start';
+          if (stateOverride) {
+            return url;
+          }
+        } else {
+          if (c === '[') {
+            insideBrackets = true;
+          } else if (c === ']') {
+            insideBrackets = false;
+          }
+          buffer += c;
+        }
+        break;
+
+      case 'port':
+        if (c !== undefined && ASCII_DIGIT.test(c)) {
+          buffer += c;
+        } else if (c === undefined || c === '/' || c === '?' || c === '#' ||
+                   (isSpecial(url) && c === '\\') || stateOverride) {
+          if (buffer !== '') {
+            const port = parseInt(buffer, 10);
+            if (port > 65535) {
+              return failure();
+            }
+            url.port = port === SPECIAL_PORTS[url.scheme] ? null : port;
+            buffer = '';
+          }
+          if (stateOverride) {
+            return url;
+          }
+          state = 'path start';
+          pointer--;
+        } else {
+          return failure();
+        }
+        break;
+
+      case 'file':
+        url.scheme = 'file';
+        url.host = '';
+        if (c === '/' || c === '\\') {
+          state = 'file slash';
+        } else if (base && base.scheme === 'file') {
+          url.host = base.host;
+          url.path = (base.path as string[]).slice();
+          url.query = base.query;
+          if (c === '?') {
+            url.query = '';
+            state = 'query';
+          } else if (c === '#') {
+            url.fragment = '';
+            state = 'fragment';
+          } else if (c !== undefined) {
+            url.query = null;
+            if (!STARTS_WITH_WINDOWS_DRIVE_LETTER.test(codes.slice(pointer).join(''))) {
+              shortenPath(url);
+            } else {
+              url.path = [];
+            }
+            state = 'path';
+            pointer--;
+          }
+        } else {
+          state = 'path';
+          pointer--;
+        }
+        break;
+
+      case 'file slash':
+        if (c === '/' || c === '\\') {
+          state = 'file host';
+        } else {
+          if (base && base.scheme === 'file') {
+            url.host = base.host;
+            const basePath = base.path as string[];
+            if (!STARTS_WITH_WINDOWS_DRIVE_LETTER.test(codes.slice(pointer).join('')) &&
+                basePath.length && NORMALIZED_WINDOWS_DRIVE_LETTER.test(basePath[0])) {
+              (url.path as string[]).push(basePath[0]);
+            }
+          }
+          state = 'path';
+          pointer--;
+        }
+        break;
+
+      case 'file host':
+        if (c === undefined || c === '/' || c === '\\' || c === '?' || c === '#') {
+          pointer--;
+          if (!stateOverride && WINDOWS_DRIVE_LETTER.test(buffer)) {
+            state = 'path';
+          } else if (buffer === '') {
+            url.host = '';
+            if (stateOverride) {
+              return url;
+            }
+            state = 'path start';
+          } else {
+            let host = parseHost(buffer, false);
+            if (host === 'localhost') {
+              host = '';
+            }
+            url.host = host;
+            if (stateOverride) {
+              return url;
+            }
+            buffer = '';
+            state = 'path start';
+          }
+        } else {
+          buffer += c;
+        }
+        break;
+
+      case 'path start':
+        if (isSpecial(url)) {
+          state = 'path';
+          if (c !== '/' && c !== '\\') {
+            pointer--;
+          }
+        } else if (!stateOverride && c === '?') {
+          url.query = '';
+          state = 'query';
+        } else if (!stateOverride && c === '#') {
+          url.fragment = '';
+          state = 'fragment';
+        } else if (c !== undefined) {
+          state = 'path';
+          if (c !== '/') {
+            pointer--;
+          }
+        } else if (stateOverride && url.host === null) {
+          (url.path as string[]).push('');
+        }
+        break;
+
+      case 'path': {
+        const slash = c === '/' || (isSpecial(url) && c === '\\');
+        if (c === undefined || slash || (!stateOverride && (c === '?' || c === '#'))) {
+          const path = url.path as string[];
+          if (DOUBLE_DOT.test(buffer)) {
+            shortenPath(url);
+            if (!slash) {
+              path.push('');
+            }
+          } else if (SINGLE_DOT.test(buffer)) {
+            if (!slash) {
+              path.push('');
+            }
+          } else {
+            if (url.scheme === 'file' && !path.length && WINDOWS_DRIVE_LETTER.test(buffer)) {
+              buffer = buffer[0] + ':';
+            }
+            path.push(buffer);
+          }
+          buffer = '';
+          if (c === '?') {
+            url.query = '';
+            state = 'query';
+          } else if (c === '#') {
+            url.fragment = '';
+            state = 'fragment';
+          }
+        } else {
+          buffer += percentEncode(c, PATH_SET);
+        }
+        break;
+      }
+
+      case 'opaque path':
+        if (c === '?') {
+          url.query = '';
+          state = 'query';
+        } else if (c === '#') {
+          url.fragment = '';
+          state = 'fragment';
+        } else if (c !== undefined) {
+          url.path += percentEncode(c, C0_CONTROL_SET);
+        }
+        break;
+
+      case 'query':
+        if ((!stateOverride && c === '#') || c === undefined) {
+          url.query += percentEncode(buffer, isSpecial(url) ? SPECIAL_QUERY_SET : QUERY_SET);
+          buffer = '';
+          if (c === '#') {
+            url.fragment = '';
+            state = 'fragment';
+          }
+        } else {
+          buffer += c;
+        }
+        break;
+
+      case 'fragment':
+        if (c !== undefined) {
+          url.fragment += percentEncode(c, FRAGMENT_SET);
+        }
+        break;
+    }
+  }
+  return url;
+}
+
+function serializePath(url: URLRecord): string {
+  return typeof url.path === 'string' ? url.path : url.path.map((segment) => '/' + segment).join('');
+}
+
+function serialize(url: URLRecord): string {
+  let output = url.scheme + ':';
+  if (url.host !== null) {
+    output += '//';
+    if (hasCredentials(url)) {
+      output += url.username + (url.password !== '' ? ':' + url.password : '') + '@';
+    }
+    output += url.host + (url.port !== null ? ':' + url.port : '');
+  } else if (typeof url.path !== 'string' && url.path.length > 1 && url.path[0] === '') {
+    output += '/.';
+  }
+  output += serializePath(url);
+  if (url.query !== null) {
+    output += '?' + url.query;
+  }
+  if (url.fragment !== null) {
+    output += '#' + url.fragment;
+  }
+  return output;
+}
+
+// A URL parsed by the built-in parser, with the getters and setters of the
+// `URL` interface.
+export class BuiltinURL implements Required<URLLike> {
+  private url: URLRecord;
+
+  constructor(input: string, base?: string) {
+    const baseURL = base === undefined ? null : parse(String(base), null)!;
+    this.url = parse(String(input), baseURL)!;
+  }
+
+  get href(): string {
+    return serialize(this.url);
+  }
+
+  set href(value: string) {
+    this.url = parse(String(value), null)!;
+  }
+
+  get protocol(): string {
+    return this.url.scheme + ':';
+  }
+
+  set protocol(value: string) {
+    parse(String(value) + ':', null, this.url, 'scheme start');
+  }
+
+  get username(): string {
+    return this.url.username;
+  }
+
+  set username(value: string) {
+    if (!cannotHaveCredentialsOrPort(this.url)) {
+      this.url.username = percentEncode(String(value), USERINFO_SET);
+    }
+  }
+
+  get password(): string {
+    return this.url.password;
+  }
+
+  set password(value: string) {
+    if (!cannotHaveCredentialsOrPort(this.url)) {
+      this.url.password = percentEncode(String(value), USERINFO_SET);
+    }
+  }
+
+  get host(): string {
+    const { host, port } = this.url;
+    return host === null ? '' : port === null ? host : `${host}:${port}`;
+  }
+
+  set host(value: string) {
+    this.setHost(String(value), 'host');
+  }
+
+  get hostname(): string {
+    return this.url.host === null ? '' : this.url.host;
+  }
+
+  set hostname(value: string) {
+    this.setHost(String(value), 'hostname');
+  }
+
+  get port(): string {
+    return this.url.port === null ? '' : String(this.url.port);
+  }
+
+  set port(value: string) {
+    if (cannotHaveCredentialsOrPort(this.url)) {
+      return;
+    }
+    if (String(value) === '') {
+      this.url.port = null;
+    } else {
+      this.modify(String(value), 'port');
+    }
+  }
+
+  get pathname(): string {
+    return serializePath(this.url);
+  }
+
+  set pathname(value: string) {
+    if (typeof this.url.path === 'string') {
+      return;
+    }
+    const path = this.url.path;
+    this.url.path = [];
+    if (!this.modify(String(value), 'path start')) {
+      this.url.path = path;
+    }
+  }
+
+  get search(): string {
+    return this.url.query ? '?' + this.url.query : '';
+  }
+
+  set search(value: string) {
+    const input = String(value).replace(/^\?/, '');
+    if (String(value) === '') {
+      this.url.query = null;
+      return;
+    }
+    this.url.query = '';
+    this.modify(input, 'query');
+  }
+
+  get hash(): string {
+    return this.url.fragment ? '#' + this.url.fragment : '';
+  }
+
+  set hash(value: string) {
+    const input = String(value).replace(/^#/, '');
+    if (String(value) === '') {
+      this.url.fragment = null;
+      return;
+    }
+    this.url.fragment = '';
+    this.modify(input, 'fragment');
+  }
+
+  toString(): string {
+    return this.href;
+  }
+
+  toJSON(): string {
+    return this.href;
+  }
+
+  private setHost(value: string, state: State) {
+    if (typeof this.url.path !== 'string') {
+      this.modify(value, state);
+    }
+  }
+
+  // Run the parser with a state override on a copy of the URL record, and
+  // keep the result unless it fails.
+  private modify(value: string, state: State): boolean {
+    const copy: URLRecord = Object.assign({}, this.url, {
+      path: typeof this.url.path === 'string' ? this.url.path : this.url.path.slice(),
+    });
+    let result: URLRecord | undefined;
+    try {
+      result = parse(value, null, copy, state);
+    } catch {
+      result = undefined;
+    }
+    if (result) {
+      this.url = result;
+    }
+    return result !== undefined;
+  }
+}
+
+// Decode an `application/x-www-form-urlencoded` string into its name and
+// value pairs, as `URLSearchParams` does.
+export function parseSearchParams(input: string): Array<[string, string]> {
+  const entries: Array<[string, string]> = [];
+  for (const sequence of input.replace(/^\?/, '').split('&')) {
+    if (sequence === '') {
+      continue;
+    }
+    const equals = sequence.indexOf('=');
+    const name = equals === -1 ? sequence : sequence.substring(0, equals);
+    const value = equals === -1 ? '' : sequence.substring(equals + 1);
+    const decode = (part: string) => utf8Decode(percentDecode(part.replace(/\+/g, ' ')));
+    entries.push([decode(name), decode(value)]);
+  }
+  return entries;
+}
+
+let parser: URLPatternURLParser = 'auto';
+let conformingURL: boolean | undefined;
+
+// Whether the global `URL` exists and parses and serializes URLs as the
+// standard describes.  This is checked once, the first time a URL is
+// parsed.
+function hasConformingURL(): boolean {
+  if (conformingURL === undefined) {
+    try {
+      const url = new URL(' HTTPS://user:pa ss@[0:0::1]:443/a/./b/../c d?q=\' "#f g');
+      url.pathname = url.pathname + '/%2e%2E/e';
+      conformingURL = url.href === 'https://user:pa%20ss@[::1]/a/e?q=%27%20%22#f%20g' &&
+        new URL('foo:bar').pathname === 'bar' &&
+        new URL('http://0x7F.1/').hostname === '127.0.0.1';
+    } catch {
+      conformingURL = false;
+    }
+  }
+  return conformingURL;
+}
+
+// Select the URL parser.  `auto` uses the global `URL` unless it is missing
+// or does not conform.
+export function setURLParser(value: URLPatternURLParser) {
+  if (value !== 'auto' && value !== 'native' && value !== 'builtin') {
+    throw new TypeError(`invalid URL parser '${value}'.`);
+  }
+  if (value === 'native' && typeof URL !== 'function') {
+    throw new TypeError(`the native URL parser is not available.`);
+  }
+  parser = value;
+}
+
+// Whether URLs are parsed with the built-in parser.
+export function usesBuiltinURLParser(): boolean {
+  return parser === 'builtin' || (parser === 'auto' && !hasConformingURL());
+}
+
+// Parse a URL with the selected parser.  Throws a `TypeError` for invalid
+// URLs.
+export function createURL(input: string, base?: string): Required<URLLike> {
+  return usesBuiltinURLParser() ? new BuiltinURL(input, base) : new URL(input, base);
+}
@@ -1,3 +1,6 @@
+import { Token } from './path-to-regex-modified';
+import type { URLPattern } from './url-pattern';
+
 export interface URLPatternInit {
   baseURL?: string;
   username?: string;
@@ -8,27 +11,313 @@ export interface URLPatternInit {
   pathname?: string;
   search?: string;
   hash?: string;
+  searchParams?: URLPatternSearchParamsInit;
+}
+
+// Maps search parameter names to component patterns that are matched
+// against the decoded parameter values, regardless of parameter order.
+export interface URLPatternSearchParamsInit {
+  [name: string]: string;
+}
+
+// An object exposing parsed URL components, such as a `URL` instance or a
+// `Location` object.  Note the separators included in `protocol`, `search`
+// and `hash`, as returned by the `URL` getters.
+export interface URLLike {
+  href: string;
+  protocol: string;
+  username?: string;
+  password?: string;
+  hostname: string;
+  port: string;
+  pathname: string;
+  search: string;
+  hash: string;
+}
+
+// An object with a URL string, such as a Fetch `Request`.
+export interface RequestLike {
+  url: string;
+  method: string;
+}
+
+// The inputs accepted by `URLPattern.test()` and `URLPattern.exec()`.
+export type URLPatternMatchInput = URLPatternInit | string | URLLike | RequestLike;
+
+export type URLPatternKeys = Exclude<keyof URLPatternInit, 'caseSensitivePath' | 'searchParams'>
+
+export type URLPatternComponent = Exclude<URLPatternKeys, 'baseURL'>;
+
+export interface URLPatternLooseGroups {
+  [key: string]: string | undefined;
 }
 
-export type URLPatternKeys = Exclude<keyof URLPatternInit, 'caseSensitivePath'>
+// The groups of each component.  `types.d.ts` narrows this to the group
+// names found in string literal patterns.
+export type URLPatternResultGroups = {
+  [component in URLPatternComponent]: object;
+};
 
-export interface URLPatternResult {
-  inputs: [URLPatternInit | string];
-  protocol: URLPatternComponentResult;
-  username: URLPatternComponentResult;
-  password: URLPatternComponentResult;
-  hostname: URLPatternComponentResult;
-  port: URLPatternComponentResult;
-  pathname: URLPatternComponentResult;
-  search: URLPatternComponentResult;
-  hash: URLPatternComponentResult;
+export type URLPatternLooseResultGroups = {
+  [component in URLPatternComponent]: URLPatternLooseGroups;
+};
+
+export interface URLPatternResult<Groups extends URLPatternResultGroups = URLPatternLooseResultGroups> {
+  inputs: [URLPatternMatchInput] | [URLPatternMatchInput, string | URLLike];
+  protocol: URLPatternComponentResult<Groups['protocol']>;
+  username: URLPatternComponentResult<Groups['username']>;
+  password: URLPatternComponentResult<Groups['password']>;
+  hostname: URLPatternComponentResult<Groups['hostname']>;
+  port: URLPatternComponentResult<Groups['port']>;
+  pathname: URLPatternComponentResult<Groups['pathname']>;
+  search: URLPatternComponentResult<Groups['search']>;
+  hash: URLPatternComponentResult<Groups['hash']>;
+  // Only set for patterns constructed with `searchParams`.
+  searchParams?: { [name: string]: URLPatternSearchParamResult };
 }
 
-export interface URLPatternComponentResult {
+export interface URLPatternComponentResult<Groups = URLPatternLooseGroups> {
   input: string;
-  groups: { [key: string]: string };
+  groups: Groups;
+  // The unmatched remainder of the input.  Only set for the pathname of a
+  // pattern constructed with `match: 'prefix'`.
+  rest?: string;
+}
+
+// The groups of a component as returned by `URLPattern.execDecoded()`.
+// Repeated groups are arrays of their decoded repetitions.
+export interface URLPatternDecodedGroups {
+  [key: string]: string | string[] | undefined;
+}
+
+export interface URLPatternDecodedComponentResult extends URLPatternComponentResult<URLPatternDecodedGroups> {}
+
+export interface URLPatternDecodedResult {
+  inputs: [URLPatternMatchInput] | [URLPatternMatchInput, string | URLLike];
+  protocol: URLPatternDecodedComponentResult;
+  username: URLPatternDecodedComponentResult;
+  password: URLPatternDecodedComponentResult;
+  hostname: URLPatternDecodedComponentResult;
+  port: URLPatternDecodedComponentResult;
+  pathname: URLPatternDecodedComponentResult;
+  search: URLPatternDecodedComponentResult;
+  hash: URLPatternDecodedComponentResult;
+  searchParams?: { [name: string]: URLPatternSearchParamResult };
+  // The named groups of every component.
+  params: URLPatternDecodedGroups;
 }
 
 export interface URLPatternOptions {
   ignoreCase: boolean;
-}
\ No newline at end of file
+  // Whether the pathname must match the whole input pathname or only a
+  // leading run of its segments.  Defaults to 'exact'.
+  match?: 'exact' | 'prefix';
+  // Whether search parameters not named in `searchParams` are permitted.
+  allowUnknownSearchParams?: boolean;
+  // Whether a `<type>` following a group name, as in `:id<int>`, gives the
+  // group a parameter type.  Otherwise it is plain text, as in the
+  // URLPattern grammar.  Giving `types` enables this as well.
+  typedGroups?: boolean;
+  // Maps group names to parameter types, as if each such group had been
+  // written as `:name<type>`.
+  types?: { [group: string]: string };
+  // Maps group names to predicates that may veto a match.  Each is called
+  // with the converted value of every matched group with that name.
+  validators?: { [group: string]: URLPatternValidator };
+  // Whether the constructor throws when `URLPattern.analyze()` reports a
+  // regexp that may backtrack catastrophically.
+  rejectUnsafeRegExps?: boolean;
+  // Whether the hostname groups of a match are converted from their `xn--`
+  // form to Unicode, so `:city.de` matching `münchen.de` reports `münchen`
+  // rather than `xn--mnchen-3ya`.
+  unicodeHostnameGroups?: boolean;
+  // Whether regexps are compiled with the `u` flag.  When false they are
+  // rewritten to match the same strings without it, for engines where the
+  // flag is missing or slow.  Defaults to whether the engine supports it.
+  unicodeRegExps?: boolean;
+  // Policy options for patterns from untrusted sources.  Patterns breaking
+  // them throw a `URLPatternPolicyError`.  `allowRegExpGroups: false`
+  // rejects groups with a custom regexp, `maxPatternLength` limits the
+  // length of the constructor string and of each component and
+  // `searchParams` pattern, `maxGroups` limits the number of groups of the
+  // whole pattern outside of components left as `*`, and
+  // `allowedComponents` lists the components that may be given a pattern
+  // other than `*`.
+  allowRegExpGroups?: boolean;
+  maxPatternLength?: number;
+  maxGroups?: number;
+  allowedComponents?: URLPatternComponent[];
+}
+
+// The policy options of `URLPatternOptions`, as named by a
+// `URLPatternPolicyError`.
+export type URLPatternPolicyRule =
+  'allowRegExpGroups' | 'maxPatternLength' | 'maxGroups' | 'allowedComponents';
+
+// The URL parsers `URLPattern.setURLParser()` selects between.
+export type URLPatternURLParser = 'auto' | 'native' | 'builtin';
+
+export type URLPatternValidator =
+  (value: unknown, component: URLPatternComponent) => boolean;
+
+// The options of `URLPattern.equals()`.  With `ignoreGroupNames` patterns
+// that only differ in the names of their groups are equal.
+export interface URLPatternEqualsOptions {
+  ignoreGroupNames?: boolean;
+}
+
+// The constructs reported by `URLPattern.analyze()`.
+export type URLPatternRegExpWarningKind =
+  'nested-quantifier' | 'overlapping-alternation' | 'overlapping-quantifiers' |
+  'overlapping-wildcards';
+
+// A regexp that may take exponential or high polynomial time to match some
+// inputs.  `group` is the name or index of the group holding the regexp, or
+// of the first of the adjacent groups, and `searchParam` names the
+// `searchParams` entry of a search warning.
+export interface URLPatternRegExpWarning {
+  kind: URLPatternRegExpWarningKind;
+  component: URLPatternComponent;
+  searchParam?: string;
+  group: string | number;
+  message: string;
+}
+
+// A named parameter type.  `pattern` is used as the regexp of typed groups,
+// and `parse` converts their matched values.
+export interface URLPatternParamType {
+  pattern: string;
+  parse?: (value: string) => unknown;
+}
+
+// The match of a single `searchParams` entry.  `input` is the first value
+// of the parameter, or empty if it was absent, and `values` holds every
+// occurrence.
+export interface URLPatternSearchParamResult<Groups = URLPatternLooseGroups>
+    extends URLPatternComponentResult<Groups> {
+  values: string[];
+}
+
+// The options passed to the `URLPatternList` constructor.  Any component
+// values are used as defaults for the list entries given as init objects or
+// shorthand strings, and must also be matched by `URLPattern` entries.
+export interface URLPatternListOptions extends URLPatternInit {
+  // Sort the patterns from the most to the least specific using
+  // `URLPattern.compareComponent()` on each component in URL order.
+  sort?: boolean;
+  // Whether larger lists look up the patterns that may match a URL by its
+  // protocol, hostname and leading pathname segments instead of running
+  // every pattern.  The matches are the same either way.  Defaults to true.
+  index?: boolean;
+}
+
+// A match of a `URLPatternList`.  `index` is the position of the matching
+// pattern in the list given to the constructor.
+export interface URLPatternListResult extends URLPatternResult {
+  index: number;
+  pattern: URLPattern;
+}
+
+// The group values passed to `URLPattern.generate()` for a single component.
+// Repeated groups using the `+` or `*` modifiers accept an array of values.
+export interface URLPatternGroupValues {
+  [key: string]: string | string[] | undefined;
+}
+
+// The group values passed to `URLPattern.generate('href')`, keyed by
+// component.
+export type URLPatternHrefGroupValues = {
+  [component in URLPatternComponent]?: URLPatternGroupValues;
+};
+
+// The options passed to the `URLPatternMap` constructor, as for
+// `URLPatternList`.
+export interface URLPatternMapOptions {
+  sort?: boolean;
+  index?: boolean;
+}
+
+// An entry of a `URLPatternMap`.
+export interface URLPatternMapEntry<T> {
+  id: number;
+  pattern: URLPattern;
+  value: T;
+}
+
+// A match of a `URLPatternMap`.
+export interface URLPatternMapMatch<T> extends URLPatternMapEntry<T> {
+  result: URLPatternResult;
+}
+
+// A route handler of a `URLPatternRouter`, called with the request and the
+// result of matching its pattern.
+export type URLPatternHandler =
+  (request: Request, result: URLPatternResult) => Response | Promise<Response>;
+
+// A middleware of a `URLPatternRouter`.  Calling `next()` passes the request
+// on to the next middleware, or to the routes after the last one.
+export type URLPatternMiddleware =
+  (request: Request, next: () => Promise<Response>) => Response | Promise<Response>;
+
+// The options passed to the `URLPatternRouter` constructor.  `notFound`
+// handles the requests matching no route, and defaults to an empty 404
+// response.
+export interface URLPatternRouterOptions {
+  notFound?: (request: Request) => Response | Promise<Response>;
+}
+
+// The parts of a `node:http` `IncomingMessage` used by
+// `URLPatternRouter.toNodeListener()`.
+export interface NodeRequestLike extends AsyncIterable<Uint8Array | string> {
+  method?: string;
+  url?: string;
+  headers: { [name: string]: string | string[] | undefined };
+  socket?: { encrypted?: boolean };
+}
+
+// The parts of a `node:http` `ServerResponse` used by
+// `URLPatternRouter.toNodeListener()`.
+export interface NodeResponseLike {
+  readonly headersSent: boolean;
+  writeHead(statusCode: number, headers: { [name: string]: string | string[] }): unknown;
+  writeHead(statusCode: number, statusMessage: string,
+            headers: { [name: string]: string | string[] }): unknown;
+  write(chunk: Uint8Array): boolean;
+  end(): unknown;
+  once(event: 'drain', listener: () => void): unknown;
+  destroy(error?: Error): unknown;
+}
+
+// An overlap between two patterns of a `URLPatternList`, reported by
+// `findConflicts()`.  The pattern at `index` is `shadowed` when every URL it
+// matches is matched by the earlier pattern at `otherIndex`, and `ambiguous`
+// when only some are.  `example` is a URL matched by both.
+export interface URLPatternConflict {
+  type: 'shadowed' | 'ambiguous';
+  index: number;
+  otherIndex: number;
+  example: string;
+}
+
+// The compiled state of a single component in a `URLPatternSnapshot`.
+export interface URLPatternComponentSnapshot {
+  pattern: string;
+  regexp: string;
+  flags: string;
+  tokens: Token[];
+}
+
+// The plain object produced by `URLPattern.toJSON()`.
+export interface URLPatternSnapshot {
+  version: number;
+  ignoreCase: boolean;
+  match?: 'exact' | 'prefix';
+  components: {
+    [component in URLPatternComponent]: URLPatternComponentSnapshot;
+  };
+  searchParams?: {
+    [name: string]: URLPatternComponentSnapshot;
+  };
+  allowUnknownSearchParams?: boolean;
+  unicodeHostnameGroups?: boolean;
+}
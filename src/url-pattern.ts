@@ -1,5 +1,27 @@
-import { ParseOptions, parse, Token, tokensToRegexp, TokensToRegexpOptions } from './path-to-regex-modified';
-import { URLPatternResult, URLPatternInit, URLPatternKeys, URLPatternOptions } from './url-pattern.interfaces';
+import { isRegExpGroup, Key, ParseOptions, parse, Token, tokensToFunction, tokensToRegexp, TokensToRegexpOptions } from './path-to-regex-modified';
+import {
+  URLPatternResult,
+  URLPatternInit,
+  URLPatternKeys,
+  URLPatternOptions,
+  URLPatternComponent,
+  URLPatternGroupValues,
+  URLPatternHrefGroupValues,
+  URLPatternSnapshot,
+  URLPatternComponentSnapshot,
+  URLPatternMatchInput,
+  URLPatternSearchParamsInit,
+  URLPatternSearchParamResult,
+  URLPatternDecodedResult,
+  URLPatternDecodedGroups,
+  URLPatternParamType,
+  URLPatternURLParser,
+  URLPatternValidator,
+  URLPatternEqualsOptions,
+  URLPatternRegExpWarning,
+  URLLike,
+  RequestLike,
+} from './url-pattern.interfaces';
 import {
   DEFAULT_OPTIONS,
   HOSTNAME_OPTIONS,
@@ -16,6 +38,7 @@ import {
   treatAsIPv6Hostname,
   isAbsolutePathname,
   isSpecialScheme,
+  SPECIAL_SCHEMES,
   protocolEncodeCallback,
   usernameEncodeCallback,
   passwordEncodeCallback,
@@ -28,6 +51,16 @@ import {
   hashEncodeCallback,
 } from './url-utils';
 import { Parser } from './url-pattern-parser';
+import { URLPatternSyntaxError } from './url-pattern-syntax-error';
+import { writeSearchSeparator, writeSeparator } from './parseShorthand';
+import { defineParamType, lookupParamType } from './url-pattern-param-types';
+import { overlapSnapshot, snapshotIsSubset, snapshotsIntersect } from './url-pattern-overlap';
+import { analyzeRegExps } from './url-pattern-redos';
+import { domainToUnicode, toURLString } from './url-pattern-idna';
+import { PatternPolicy, URLPatternPolicyError } from './url-pattern-policy';
+import { supportsUnicodeRegExps, toNonUnicodeSource } from './url-pattern-regexp-compat';
+import { isIdentifierPart } from './url-pattern-identifiers';
+import { createURL, parseSearchParams, setURLParser, usesBuiltinURLParser } from './url-pattern-url';
 
 // Define the components in a URL.  The ordering of this constant list is
 // signficant to the implementation below.
@@ -46,15 +79,42 @@ const COMPONENTS: URLPatternKeys[] = [
 // input does not provide an explicit value.
 const DEFAULT_PATTERN = '*';
 
-function extractValues(url: string, baseURL?: string): URLPatternInit {
-  if (typeof url !== "string") {
+// The version of the snapshot format produced by `URLPattern.toJSON()`.  This
+// must be incremented whenever the compiled representation of a component
+// changes so that `URLPattern.fromJSON()` rejects stale snapshots.
+const SNAPSHOT_VERSION = 1;
+
+// Fetch `Request` objects are matched against their `url`.
+function isRequestLike(input: any): input is RequestLike {
+  return !!input && typeof input === 'object' && typeof input.url === 'string' &&
+    typeof input.method === 'string';
+}
+
+// `URL` and `Location` objects expose already parsed components.  A
+// `URLPatternInit` never has an `href` member.
+function isURLLike(input: any): input is URLLike {
+  return !!input && typeof input === 'object' && typeof input.href === 'string';
+}
+
+function extractValues(url: string | URLLike | RequestLike,
+                       baseURL?: string | URLLike): URLPatternInit {
+  if (isRequestLike(url)) {
+    url = url.url;
+  }
+  let o: URLLike;
+  if (typeof url === 'string') {
+    const base = isURLLike(baseURL) ? baseURL.href : baseURL;
+    o = createURL(toURLString(url), base === undefined ? base : toURLString(base)); // May throw.
+  } else if (isURLLike(url)) {
+    o = url;
+  } else {
     throw new TypeError(`parameter 1 is not of type 'string'.`);
   }
-  const o = new URL(url, baseURL); // May throw.
   return {
     protocol: o.protocol.substring(0, o.protocol.length - 1),
-    username: o.username,
-    password: o.password,
+    // `Location` objects have no username or password.
+    username: o.username || '',
+    password: o.password || '',
     hostname: o.hostname,
     port: o.port,
     pathname: o.pathname,
@@ -84,7 +144,7 @@ function applyInit(o: URLPatternInit, init: URLPatternInit, isPattern: boolean):
   let baseURL;
   if (typeof init.baseURL === 'string') {
     try {
-      baseURL = new URL(init.baseURL);
+      baseURL = createURL(toURLString(init.baseURL));
       o.protocol = processBaseURLString(baseURL.protocol.substring(0, baseURL.protocol.length - 1), isPattern);
       o.username = processBaseURLString(baseURL.username, isPattern);
       o.password = processBaseURLString(baseURL.password, isPattern);
@@ -157,15 +217,19 @@ function escapeRegexpString(value: string): string {
   return value.replace(/([.+*?^${}()[\]|/\\])/g, '\\$1');
 }
 
+// The regexp of groups without a regexp of their own, such as `:id`, when
+// parsed with `options`.
+function segmentWildcardRegexp(options: ParseOptions): string {
+  return `[^${escapeRegexpString(options.delimiter === undefined ? '/#?' : options.delimiter)}]+?`;
+}
+
 // A utility function to convert a list of path-to-regexp Tokens back into
 // a pattern string.  The resulting pattern should be equivalent to the
 // original parsed pattern, although they may differ due to canonicalization.
 function tokensToPattern(tokens: Token[],
   options: TokensToRegexpOptions & ParseOptions): string {
   const wildcardPattern = ".*";
-  const segmentWildcardPattern =
-    `[^${escapeRegexpString(options.delimiter === undefined ? '/#?' : options.delimiter)}]+?`;
-  const regexIdentifierPart = /[$_‌‍[0-9A-Z_a-z\xAA\xB5\xB7\xBA\xC0-\xD6\xD8-\xF6\xF8-\u02C1\u02C6-\u02D1\u02E0-\u02E4\u02EC\u02EE\u0300-\u0374\u0376\u0377\u037A-\u037D\u037F\u0386-\u038A\u038C\u038E-\u03A1\u03A3-\u03F5\u03F7-\u0481\u0483-\u0487\u048A-\u052F\u0531-\u0556\u0559\u0560-\u0588\u0591-\u05BD\u05BF\u05C1\u05C2\u05C4\u05C5\u05C7\u05D0-\u05EA\u05EF-\u05F2\u0610-\u061A\u0620-\u0669\u066E-\u06D3\u06D5-\u06DC\u06DF-\u06E8\u06EA-\u06FC\u06FF\u0710-\u074A\u074D-\u07B1\u07C0-\u07F5\u07FA\u07FD\u0800-\u082D\u0840-\u085B\u0860-\u086A\u08A0-\u08B4\u08B6-\u08C7\u08D3-\u08E1\u08E3-\u0963\u0966-\u096F\u0971-\u0983\u0985-\u098C\u098F\u0990\u0993-\u09A8\u09AA-\u09B0\u09B2\u09B6-\u09B9\u09BC-\u09C4\u09C7\u09C8\u09CB-\u09CE\u09D7\u09DC\u09DD\u09DF-\u09E3\u09E6-\u09F1\u09FC\u09FE\u0A01-\u0A03\u0A05-\u0A0A\u0A0F\u0A10\u0A13-\u0A28\u0A2A-\u0A30\u0A32\u0A33\u0A35\u0A36\u0A38\u0A39\u0A3C\u0A3E-\u0A42\u0A47\u0A48\u0A4B-\u0A4D\u0A51\u0A59-\u0A5C\u0A5E\u0A66-\u0A75\u0A81-\u0A83\u0A85-\u0A8D\u0A8F-\u0A91\u0A93-\u0AA8\u0AAA-\u0AB0\u0AB2\u0AB3\u0AB5-\u0AB9\u0ABC-\u0AC5\u0AC7-\u0AC9\u0ACB-\u0ACD\u0AD0\u0AE0-\u0AE3\u0AE6-\u0AEF\u0AF9-\u0AFF\u0B01-\u0B03\u0B05-\u0B0C\u0B0F\u0B10\u0B13-\u0B28\u0B2A-\u0B30\u0B32\u0B33\u0B35-\u0B39\u0B3C-\u0B44\u0B47\u0B48\u0B4B-\u0B4D\u0B55-\u0B57\u0B5C\u0B5D\u0B5F-\u0B63\u0B66-\u0B6F\u0B71\u0B82\u0B83\u0B85-\u0B8A\u0B8E-\u0B90\u0B92-\u0B95\u0B99\u0B9A\u0B9C\u0B9E\u0B9F\u0BA3\u0BA4\u0BA8-\u0BAA\u0BAE-\u0BB9\u0BBE-\u0BC2\u0BC6-\u0BC8\u0BCA-\u0BCD\u0BD0\u0BD7\u0BE6-\u0BEF\u0C00-\u0C0C\u0C0E-\u0C10\u0C12-\u0C28\u0C2A-\u0C39\u0C3D-\u0C44\u0C46-\u0C48\u0C4A-\u0C4D\u0C55\u0C56\u0C58-\u0C5A\u0C60-\u0C63\u0C66-\u0C6F\u0C80-\u0C83\u0C85-\u0C8C\u0C8E-\u0C90\u0C92-\u0CA8\u0CAA-\u0CB3\u0CB5-\u0CB9\u0CBC-\u0CC4\u0CC6-\u0CC8\u0CCA-\u0CCD\u0CD5\u0CD6\u0CDE\u0CE0-\u0CE3\u0CE6-\u0CEF\u0CF1\u0CF2\u0D00-\u0D0C\u0D0E-\u0D10\u0D12-\u0D44\u0D46-\u0D48\u0D4A-\u0D4E\u0D54-\u0D57\u0D5F-\u0D63\u0D66-\u0D6F\u0D7A-\u0D7F\u0D81-\u0D83\u0D85-\u0D96\u0D9A-\u0DB1\u0DB3-\u0DBB\u0DBD\u0DC0-\u0DC6\u0DCA\u0DCF-\u0DD4\u0DD6\u0DD8-\u0DDF\u0DE6-\u0DEF\u0DF2\u0DF3\u0E01-\u0E3A\u0E40-\u0E4E\u0E50-\u0E59\u0E81\u0E82\u0E84\u0E86-\u0E8A\u0E8C-\u0EA3\u0EA5\u0EA7-\u0EBD\u0EC0-\u0EC4\u0EC6\u0EC8-\u0ECD\u0ED0-\u0ED9\u0EDC-\u0EDF\u0F00\u0F18\u0F19\u0F20-\u0F29\u0F35\u0F37\u0F39\u0F3E-\u0F47\u0F49-\u0F6C\u0F71-\u0F84\u0F86-\u0F97\u0F99-\u0FBC\u0FC6\u1000-\u1049\u1050-\u109D\u10A0-\u10C5\u10C7\u10CD\u10D0-\u10FA\u10FC-\u1248\u124A-\u124D\u1250-\u1256\u1258\u125A-\u125D\u1260-\u1288\u128A-\u128D\u1290-\u12B0\u12B2-\u12B5\u12B8-\u12BE\u12C0\u12C2-\u12C5\u12C8-\u12D6\u12D8-\u1310\u1312-\u1315\u1318-\u135A\u135D-\u135F\u1369-\u1371\u1380-\u138F\u13A0-\u13F5\u13F8-\u13FD\u1401-\u166C\u166F-\u167F\u1681-\u169A\u16A0-\u16EA\u16EE-\u16F8\u1700-\u170C\u170E-\u1714\u1720-\u1734\u1740-\u1753\u1760-\u176C\u176E-\u1770\u1772\u1773\u1780-\u17D3\u17D7\u17DC\u17DD\u17E0-\u17E9\u180B-\u180D\u1810-\u1819\u1820-\u1878\u1880-\u18AA\u18B0-\u18F5\u1900-\u191E\u1920-\u192B\u1930-\u193B\u1946-\u196D\u1970-\u1974\u1980-\u19AB\u19B0-\u19C9\u19D0-\u19DA\u1A00-\u1A1B\u1A20-\u1A5E\u1A60-\u1A7C\u1A7F-\u1A89\u1A90-\u1A99\u1AA7\u1AB0-\u1ABD\u1ABF\u1AC0\u1B00-\u1B4B\u1B50-\u1B59\u1B6B-\u1B73\u1B80-\u1BF3\u1C00-\u1C37\u1C40-\u1C49\u1C4D-\u1C7D\u1C80-\u1C88\u1C90-\u1CBA\u1CBD-\u1CBF\u1CD0-\u1CD2\u1CD4-\u1CFA\u1D00-\u1DF9\u1DFB-\u1F15\u1F18-\u1F1D\u1F20-\u1F45\u1F48-\u1F4D\u1F50-\u1F57\u1F59\u1F5B\u1F5D\u1F5F-\u1F7D\u1F80-\u1FB4\u1FB6-\u1FBC\u1FBE\u1FC2-\u1FC4\u1FC6-\u1FCC\u1FD0-\u1FD3\u1FD6-\u1FDB\u1FE0-\u1FEC\u1FF2-\u1FF4\u1FF6-\u1FFC\u203F\u2040\u2054\u2071\u207F\u2090-\u209C\u20D0-\u20DC\u20E1\u20E5-\u20F0\u2102\u2107\u210A-\u2113\u2115\u2118-\u211D\u2124\u2126\u2128\u212A-\u2139\u213C-\u213F\u2145-\u2149\u214E\u2160-\u2188\u2C00-\u2C2E\u2C30-\u2C5E\u2C60-\u2CE4\u2CEB-\u2CF3\u2D00-\u2D25\u2D27\u2D2D\u2D30-\u2D67\u2D6F\u2D7F-\u2D96\u2DA0-\u2DA6\u2DA8-\u2DAE\u2DB0-\u2DB6\u2DB8-\u2DBE\u2DC0-\u2DC6\u2DC8-\u2DCE\u2DD0-\u2DD6\u2DD8-\u2DDE\u2DE0-\u2DFF\u3005-\u3007\u3021-\u302F\u3031-\u3035\u3038-\u303C\u3041-\u3096\u3099-\u309F\u30A1-\u30FA\u30FC-\u30FF\u3105-\u312F\u3131-\u318E\u31A0-\u31BF\u31F0-\u31FF\u3400-\u4DBF\u4E00-\u9FFC\uA000-\uA48C\uA4D0-\uA4FD\uA500-\uA60C\uA610-\uA62B\uA640-\uA66F\uA674-\uA67D\uA67F-\uA6F1\uA717-\uA71F\uA722-\uA788\uA78B-\uA7BF\uA7C2-\uA7CA\uA7F5-\uA827\uA82C\uA840-\uA873\uA880-\uA8C5\uA8D0-\uA8D9\uA8E0-\uA8F7\uA8FB\uA8FD-\uA92D\uA930-\uA953\uA960-\uA97C\uA980-\uA9C0\uA9CF-\uA9D9\uA9E0-\uA9FE\uAA00-\uAA36\uAA40-\uAA4D\uAA50-\uAA59\uAA60-\uAA76\uAA7A-\uAAC2\uAADB-\uAADD\uAAE0-\uAAEF\uAAF2-\uAAF6\uAB01-\uAB06\uAB09-\uAB0E\uAB11-\uAB16\uAB20-\uAB26\uAB28-\uAB2E\uAB30-\uAB5A\uAB5C-\uAB69\uAB70-\uABEA\uABEC\uABED\uABF0-\uABF9\uAC00-\uD7A3\uD7B0-\uD7C6\uD7CB-\uD7FB\uF900-\uFA6D\uFA70-\uFAD9\uFB00-\uFB06\uFB13-\uFB17\uFB1D-\uFB28\uFB2A-\uFB36\uFB38-\uFB3C\uFB3E\uFB40\uFB41\uFB43\uFB44\uFB46-\uFBB1\uFBD3-\uFD3D\uFD50-\uFD8F\uFD92-\uFDC7\uFDF0-\uFDFB\uFE00-\uFE0F\uFE20-\uFE2F\uFE33\uFE34\uFE4D-\uFE4F\uFE70-\uFE74\uFE76-\uFEFC\uFF10-\uFF19\uFF21-\uFF3A\uFF3F\uFF41-\uFF5A\uFF66-\uFFBE\uFFC2-\uFFC7\uFFCA-\uFFCF\uFFD2-\uFFD7\uFFDA-\uFFDC]|\uD800[\uDC00-\uDC0B\uDC0D-\uDC26\uDC28-\uDC3A\uDC3C\uDC3D\uDC3F-\uDC4D\uDC50-\uDC5D\uDC80-\uDCFA\uDD40-\uDD74\uDDFD\uDE80-\uDE9C\uDEA0-\uDED0\uDEE0\uDF00-\uDF1F\uDF2D-\uDF4A\uDF50-\uDF7A\uDF80-\uDF9D\uDFA0-\uDFC3\uDFC8-\uDFCF\uDFD1-\uDFD5]|\uD801[\uDC00-\uDC9D\uDCA0-\uDCA9\uDCB0-\uDCD3\uDCD8-\uDCFB\uDD00-\uDD27\uDD30-\uDD63\uDE00-\uDF36\uDF40-\uDF55\uDF60-\uDF67]|\uD802[\uDC00-\uDC05\uDC08\uDC0A-\uDC35\uDC37\uDC38\uDC3C\uDC3F-\uDC55\uDC60-\uDC76\uDC80-\uDC9E\uDCE0-\uDCF2\uDCF4\uDCF5\uDD00-\uDD15\uDD20-\uDD39\uDD80-\uDDB7\uDDBE\uDDBF\uDE00-\uDE03\uDE05\uDE06\uDE0C-\uDE13\uDE15-\uDE17\uDE19-\uDE35\uDE38-\uDE3A\uDE3F\uDE60-\uDE7C\uDE80-\uDE9C\uDEC0-\uDEC7\uDEC9-\uDEE6\uDF00-\uDF35\uDF40-\uDF55\uDF60-\uDF72\uDF80-\uDF91]|\uD803[\uDC00-\uDC48\uDC80-\uDCB2\uDCC0-\uDCF2\uDD00-\uDD27\uDD30-\uDD39\uDE80-\uDEA9\uDEAB\uDEAC\uDEB0\uDEB1\uDF00-\uDF1C\uDF27\uDF30-\uDF50\uDFB0-\uDFC4\uDFE0-\uDFF6]|\uD804[\uDC00-\uDC46\uDC66-\uDC6F\uDC7F-\uDCBA\uDCD0-\uDCE8\uDCF0-\uDCF9\uDD00-\uDD34\uDD36-\uDD3F\uDD44-\uDD47\uDD50-\uDD73\uDD76\uDD80-\uDDC4\uDDC9-\uDDCC\uDDCE-\uDDDA\uDDDC\uDE00-\uDE11\uDE13-\uDE37\uDE3E\uDE80-\uDE86\uDE88\uDE8A-\uDE8D\uDE8F-\uDE9D\uDE9F-\uDEA8\uDEB0-\uDEEA\uDEF0-\uDEF9\uDF00-\uDF03\uDF05-\uDF0C\uDF0F\uDF10\uDF13-\uDF28\uDF2A-\uDF30\uDF32\uDF33\uDF35-\uDF39\uDF3B-\uDF44\uDF47\uDF48\uDF4B-\uDF4D\uDF50\uDF57\uDF5D-\uDF63\uDF66-\uDF6C\uDF70-\uDF74]|\uD805[\uDC00-\uDC4A\uDC50-\uDC59\uDC5E-\uDC61\uDC80-\uDCC5\uDCC7\uDCD0-\uDCD9\uDD80-\uDDB5\uDDB8-\uDDC0\uDDD8-\uDDDD\uDE00-\uDE40\uDE44\uDE50-\uDE59\uDE80-\uDEB8\uDEC0-\uDEC9\uDF00-\uDF1A\uDF1D-\uDF2B\uDF30-\uDF39]|\uD806[\uDC00-\uDC3A\uDCA0-\uDCE9\uDCFF-\uDD06\uDD09\uDD0C-\uDD13\uDD15\uDD16\uDD18-\uDD35\uDD37\uDD38\uDD3B-\uDD43\uDD50-\uDD59\uDDA0-\uDDA7\uDDAA-\uDDD7\uDDDA-\uDDE1\uDDE3\uDDE4\uDE00-\uDE3E\uDE47\uDE50-\uDE99\uDE9D\uDEC0-\uDEF8]|\uD807[\uDC00-\uDC08\uDC0A-\uDC36\uDC38-\uDC40\uDC50-\uDC59\uDC72-\uDC8F\uDC92-\uDCA7\uDCA9-\uDCB6\uDD00-\uDD06\uDD08\uDD09\uDD0B-\uDD36\uDD3A\uDD3C\uDD3D\uDD3F-\uDD47\uDD50-\uDD59\uDD60-\uDD65\uDD67\uDD68\uDD6A-\uDD8E\uDD90\uDD91\uDD93-\uDD98\uDDA0-\uDDA9\uDEE0-\uDEF6\uDFB0]|\uD808[\uDC00-\uDF99]|\uD809[\uDC00-\uDC6E\uDC80-\uDD43]|[\uD80C\uD81C-\uD820\uD822\uD840-\uD868\uD86A-\uD86C\uD86F-\uD872\uD874-\uD879\uD880-\uD883][\uDC00-\uDFFF]|\uD80D[\uDC00-\uDC2E]|\uD811[\uDC00-\uDE46]|\uD81A[\uDC00-\uDE38\uDE40-\uDE5E\uDE60-\uDE69\uDED0-\uDEED\uDEF0-\uDEF4\uDF00-\uDF36\uDF40-\uDF43\uDF50-\uDF59\uDF63-\uDF77\uDF7D-\uDF8F]|\uD81B[\uDE40-\uDE7F\uDF00-\uDF4A\uDF4F-\uDF87\uDF8F-\uDF9F\uDFE0\uDFE1\uDFE3\uDFE4\uDFF0\uDFF1]|\uD821[\uDC00-\uDFF7]|\uD823[\uDC00-\uDCD5\uDD00-\uDD08]|\uD82C[\uDC00-\uDD1E\uDD50-\uDD52\uDD64-\uDD67\uDD70-\uDEFB]|\uD82F[\uDC00-\uDC6A\uDC70-\uDC7C\uDC80-\uDC88\uDC90-\uDC99\uDC9D\uDC9E]|\uD834[\uDD65-\uDD69\uDD6D-\uDD72\uDD7B-\uDD82\uDD85-\uDD8B\uDDAA-\uDDAD\uDE42-\uDE44]|\uD835[\uDC00-\uDC54\uDC56-\uDC9C\uDC9E\uDC9F\uDCA2\uDCA5\uDCA6\uDCA9-\uDCAC\uDCAE-\uDCB9\uDCBB\uDCBD-\uDCC3\uDCC5-\uDD05\uDD07-\uDD0A\uDD0D-\uDD14\uDD16-\uDD1C\uDD1E-\uDD39\uDD3B-\uDD3E\uDD40-\uDD44\uDD46\uDD4A-\uDD50\uDD52-\uDEA5\uDEA8-\uDEC0\uDEC2-\uDEDA\uDEDC-\uDEFA\uDEFC-\uDF14\uDF16-\uDF34\uDF36-\uDF4E\uDF50-\uDF6E\uDF70-\uDF88\uDF8A-\uDFA8\uDFAA-\uDFC2\uDFC4-\uDFCB\uDFCE-\uDFFF]|\uD836[\uDE00-\uDE36\uDE3B-\uDE6C\uDE75\uDE84\uDE9B-\uDE9F\uDEA1-\uDEAF]|\uD838[\uDC00-\uDC06\uDC08-\uDC18\uDC1B-\uDC21\uDC23\uDC24\uDC26-\uDC2A\uDD00-\uDD2C\uDD30-\uDD3D\uDD40-\uDD49\uDD4E\uDEC0-\uDEF9]|\uD83A[\uDC00-\uDCC4\uDCD0-\uDCD6\uDD00-\uDD4B\uDD50-\uDD59]|\uD83B[\uDE00-\uDE03\uDE05-\uDE1F\uDE21\uDE22\uDE24\uDE27\uDE29-\uDE32\uDE34-\uDE37\uDE39\uDE3B\uDE42\uDE47\uDE49\uDE4B\uDE4D-\uDE4F\uDE51\uDE52\uDE54\uDE57\uDE59\uDE5B\uDE5D\uDE5F\uDE61\uDE62\uDE64\uDE67-\uDE6A\uDE6C-\uDE72\uDE74-\uDE77\uDE79-\uDE7C\uDE7E\uDE80-\uDE89\uDE8B-\uDE9B\uDEA1-\uDEA3\uDEA5-\uDEA9\uDEAB-\uDEBB]|\uD83E[\uDFF0-\uDFF9]|\uD869[\uDC00-\uDEDD\uDF00-\uDFFF]|\uD86D[\uDC00-\uDF34\uDF40-\uDFFF]|\uD86E[\uDC00-\uDC1D\uDC20-\uDFFF]|\uD873[\uDC00-\uDEA1\uDEB0-\uDFFF]|\uD87A[\uDC00-\uDFE0]|\uD87E[\uDC00-\uDE1D]|\uD884[\uDC00-\uDF4A]|\uDB40[\uDD00-\uDDEF]]/;
+  const segmentWildcardPattern = segmentWildcardRegexp(options);
 
   let result = "";
   for (let i = 0; i < tokens.length; ++i) {
@@ -214,19 +278,26 @@ function tokensToPattern(tokens: Token[],
     //    a. An `(...)` expression following a `:foo` group.  We want to output
     //       `{:foo}(...)` and not `:foo(...)`.
     //    b. A plain text expression following a `:foo` group where the text
-    //       could be mistakenly interpreted as part of the name.  We want to
-    //       output `{:foo}bar` and not `:foobar`.
+    //       could be mistakenly interpreted as part of the name or as a type.
+    //       We want to output `{:foo}bar` and not `:foobar`, and `{:foo}<a>`
+    //       and not `:foo<a>`.
+    //    c. An `(...)` expression following a `:foo<type>` group.
     if (!needsGrouping && customName &&
       token.pattern === segmentWildcardPattern &&
       token.modifier === "" && nextToken && !nextToken.prefix &&
       !nextToken.suffix) {
       if (typeof nextToken === "string") {
         const code = nextToken.length > 0 ? nextToken[0] : "";
-        needsGrouping = regexIdentifierPart.test(code);
+        needsGrouping = isIdentifierPart(code) || code === '<';
       } else {
         needsGrouping = typeof nextToken.name === "number";
       }
     }
+    if (!needsGrouping && token.type !== undefined &&
+      token.modifier === "" && nextToken && typeof nextToken !== "string" &&
+      !nextToken.prefix && typeof nextToken.name === "number") {
+      needsGrouping = true;
+    }
 
     // 3. preceded by a fixed text part that ends with an implicit prefix
     //    character (like `/`).  This occurs when the original pattern used
@@ -256,7 +327,10 @@ function tokensToPattern(tokens: Token[],
       result += `:${token.name}`;
     }
 
-    if (token.pattern === wildcardPattern) {
+    if (token.type !== undefined) {
+      // A typed group implies its pattern.
+      result += `<${token.type}>`;
+    } else if (token.pattern === wildcardPattern) {
       // We can only use the `*` wildcard card if we meet a number of
       // conditions.  We must use an explicit `(.*)` group if:
       //
@@ -292,7 +366,7 @@ function tokensToPattern(tokens: Token[],
     // from the end of the custom name; e.g. `:foo\\bar` instead of `:foobar`.
     if (token.pattern === segmentWildcardPattern && customName &&
       token.suffix !== "") {
-      if (regexIdentifierPart.test(token.suffix[0])) {
+      if (isIdentifierPart(token.suffix[0])) {
         result += '\\';
       }
     }
@@ -309,26 +383,434 @@ function tokensToPattern(tokens: Token[],
   return result;
 }
 
+// The kinds of parts in a component pattern, ordered from the least to the
+// most specific.  Used by `URLPattern.compareComponent()`.
+enum PartType {
+  FULL_WILDCARD,
+  REGEXP,
+  SEGMENT_WILDCARD,
+  FIXED,
+}
+
+// Modifiers ordered from the least to the most specific.
+const MODIFIER_ORDER = ['*', '?', '+', ''];
+
+interface Part {
+  type: PartType;
+  value: string;
+  prefix: string;
+  suffix: string;
+  modifier: string;
+}
+
+// A part compared against the next part of the longer list when one part
+// list is a prefix of the other.  This makes `/foo` more specific than
+// `/foo/*`.
+const EMPTY_FIXED_PART: Part = {
+  type: PartType.FIXED,
+  value: '',
+  prefix: '',
+  suffix: '',
+  modifier: '',
+};
+
+// Convert the path-to-regexp tokens of a component into a list of typed
+// parts.
+function tokensToParts(tokens: Token[], options: ParseOptions): Part[] {
+  const segmentWildcardPattern = segmentWildcardRegexp(options);
+  return tokens.map((token) => {
+    if (typeof token === 'string') {
+      return { ...EMPTY_FIXED_PART, value: token };
+    }
+    let type = PartType.REGEXP;
+    if (token.pattern === '') {
+      type = PartType.FIXED;
+    } else if (token.pattern === '.*') {
+      type = PartType.FULL_WILDCARD;
+    } else if (token.pattern === segmentWildcardPattern) {
+      type = PartType.SEGMENT_WILDCARD;
+    }
+    return {
+      type,
+      value: type === PartType.REGEXP ? token.pattern : '',
+      prefix: token.prefix,
+      suffix: token.suffix,
+      modifier: token.modifier,
+    };
+  });
+}
+
+function compareStrings(left: string, right: string): number {
+  if (left === right) {
+    return 0;
+  }
+  return left < right ? -1 : 1;
+}
+
+function compareParts(left: Part, right: Part): number {
+  if (left.type !== right.type) {
+    return left.type < right.type ? -1 : 1;
+  }
+  const leftModifier = MODIFIER_ORDER.indexOf(left.modifier);
+  const rightModifier = MODIFIER_ORDER.indexOf(right.modifier);
+  if (leftModifier !== rightModifier) {
+    return leftModifier < rightModifier ? -1 : 1;
+  }
+  return compareStrings(left.prefix, right.prefix) ||
+    compareStrings(left.value, right.value) ||
+    compareStrings(left.suffix, right.suffix);
+}
+
+// Map an offset within a compiled component pattern back to the constructor
+// string.  `applyInit()` may have prepended text to the parsed component
+// string, such as the base URL path for a relative pathname, so offsets that
+// fall within that text have no position in the constructor string.
+function inputIndexOf(index: number, pattern: string, original: string | undefined,
+                      offset: number | undefined): number | undefined {
+  if (original === undefined || offset === undefined || !pattern.endsWith(original)) {
+    return undefined;
+  }
+  const shift = pattern.length - original.length;
+  return index < shift ? undefined : offset + index - shift;
+}
+
+// Returns the path-to-regexp options used to compile the given component
+// pattern.  The pathname options depend on whether the already compiled
+// protocol regexp matches a special scheme.
+function componentOptions(component: URLPatternKeys, pattern: string,
+                          protocolRegexp: RegExp | undefined,
+                          ignoreCase: boolean,
+                          matchPrefix: boolean = false,
+                          unicode: boolean = true,
+                          typedGroups: boolean = false): TokensToRegexpOptions & ParseOptions {
+  const options: TokensToRegexpOptions & ParseOptions = {};
+  const ignoreCaseOptions = { ignoreCase };
+  switch (component) {
+    case 'protocol':
+      Object.assign(options, DEFAULT_OPTIONS);
+      options.encodePart = protocolEncodeCallback;
+      break;
+    case 'username':
+      Object.assign(options, DEFAULT_OPTIONS);
+      options.encodePart = usernameEncodeCallback;
+      break;
+    case 'password':
+      Object.assign(options, DEFAULT_OPTIONS);
+      options.encodePart = passwordEncodeCallback;
+      break;
+    case 'hostname':
+      Object.assign(options, HOSTNAME_OPTIONS);
+      if (treatAsIPv6Hostname(pattern)) {
+        options.encodePart = ipv6HostnameEncodeCallback;
+      } else {
+        options.encodePart = hostnameEncodeCallback;
+      }
+      break;
+    case 'port':
+      Object.assign(options, DEFAULT_OPTIONS);
+      options.encodePart = portEncodeCallback;
+      break;
+    case 'pathname':
+      if (isSpecialScheme(protocolRegexp)) {
+        Object.assign(options, PATHNAME_OPTIONS, ignoreCaseOptions);
+        options.encodePart = standardURLPathnameEncodeCallback;
+      } else {
+        Object.assign(options, DEFAULT_OPTIONS, ignoreCaseOptions);
+        options.encodePart = pathURLPathnameEncodeCallback;
+      }
+      // In prefix mode the pathname regexp is not anchored at the end, but
+      // it must still stop on a segment boundary so that "/admin" does not
+      // match "/adminx".  Non-special pathnames have no delimiter of their
+      // own so the boundary is always given explicitly.
+      if (matchPrefix) {
+        options.end = false;
+        options.endsWith = PATHNAME_OPTIONS.delimiter;
+      }
+      break;
+    case 'search':
+      Object.assign(options, DEFAULT_OPTIONS, ignoreCaseOptions);
+      options.encodePart = searchEncodeCallback;
+      break;
+    case 'hash':
+      Object.assign(options, DEFAULT_OPTIONS, ignoreCaseOptions);
+      options.encodePart = hashEncodeCallback;
+      break;
+  }
+  if (typedGroups) {
+    options.typePattern = typePattern;
+  }
+  options.unicode = unicode;
+  return options;
+}
+
+// Returns the regexp pattern of a `:name<type>` group.
+function typePattern(type: string): string {
+  return lookupParamType(type).pattern;
+}
+
+// Apply the `types` option to the named groups of a parsed pattern.  Only
+// groups using the default segment pattern can be given a type, since the
+// type replaces that pattern.  A type given inline takes precedence over the
+// same type given as an option, but two different types are an error.
+function applyGroupTypes(tokens: Token[], types: {[group: string]: string},
+                         options: ParseOptions) {
+  for (const token of tokens) {
+    if (typeof token === 'string' || typeof token.name !== 'string' ||
+        !Object.prototype.hasOwnProperty.call(types, token.name)) {
+      continue;
+    }
+    const type = types[token.name];
+    if (token.type === type) {
+      continue;
+    }
+    if (token.type !== undefined || token.pattern !== segmentWildcardRegexp(options)) {
+      throw new TypeError(`group '${token.name}' already has a pattern and cannot be given type '${type}'.`);
+    }
+    token.type = type;
+    token.pattern = typePattern(type);
+  }
+}
+
+// Returns the groups of a match.  The values of typed groups are converted
+// by the parse function of their type, and a repeated typed group becomes an
+// array of converted values.
+function matchGroups(keys: Key[], match: RegExpExecArray): any {
+  const groups: any = {};
+  for (let [i, key] of keys.entries()) {
+    if (typeof key.name !== 'string' && typeof key.name !== 'number') {
+      continue;
+    }
+    let value: any = match[i + 1];
+    const parse = key.type === undefined ? undefined : lookupParamType(key.type).parse;
+    if (parse && value !== undefined) {
+      if (key.modifier === '+' || key.modifier === '*') {
+        const separator = key.prefix + key.suffix;
+        value = (separator ? value.split(separator) : [value]).map(parse);
+      } else {
+        value = parse(value);
+      }
+    }
+    groups[key.name] = value;
+  }
+  return groups;
+}
+
+// Percent-decode a group value following the rules of its component.  The
+// protocol, hostname and port never contain percent-encoded text, and the
+// search component decodes "+" as a space like `URLSearchParams`.  Malformed
+// escape sequences are left as they are.
+function decodeComponentValue(component: URLPatternComponent, value: string): string {
+  if (component === 'protocol' || component === 'hostname' || component === 'port') {
+    return value;
+  }
+  if (component === 'search') {
+    value = value.replace(/\+/g, ' ');
+  }
+  return value.replace(/(%[0-9A-Fa-f]{2})+/g, (encoded) => {
+    try {
+      return decodeURIComponent(encoded);
+    } catch {
+      return encoded;
+    }
+  });
+}
+
+// Decode the value of a group.  A repeated group is split on its prefix and
+// suffix before decoding, so an encoded separator within a repetition is
+// preserved.  An unmatched repeated group is an empty array.
+function decodeGroupValue(component: URLPatternComponent, key: Key,
+                          value: string | undefined): string | string[] | undefined {
+  const repeat = key.modifier === '+' || key.modifier === '*';
+  if (value === undefined) {
+    return repeat ? [] : undefined;
+  }
+  if (!repeat) {
+    return decodeComponentValue(component, value);
+  }
+  const separator = key.prefix + key.suffix;
+  const parts = separator ? value.split(separator) : [value];
+  return parts.map((part) => decodeComponentValue(component, part));
+}
+
+// Returns the snapshot of a compiled pattern.  The tokens are copied so that
+// the snapshot does not share state with the pattern.
+function snapshotComponent(pattern: string, regexp: RegExp,
+                           tokens: Token[]): URLPatternComponentSnapshot {
+  return {
+    pattern,
+    regexp: regexp.source,
+    flags: regexp.flags,
+    tokens: tokens.map((token) => typeof token === 'string' ? token : { ...token }),
+  };
+}
+
+// Returns the tokens of a component with adjacent fixed text merged, so
+// that e.g. `/foo` and `{/foo}` have the same tokens, and optionally with
+// the group names removed.
+function canonicalTokens(tokens: Token[], ignoreGroupNames: boolean) {
+  const result: Array<string | Array<string | number>> = [];
+  for (const token of tokens) {
+    const text = typeof token === 'string' ? token :
+      !token.pattern && !token.modifier ? token.prefix + token.suffix : undefined;
+    if (text === undefined) {
+      const { name, prefix, suffix, pattern, modifier, type } = token as Key;
+      result.push([ignoreGroupNames ? '' : name, prefix, suffix, pattern, modifier, type || '']);
+    } else if (typeof result[result.length - 1] === 'string') {
+      result[result.length - 1] += text;
+    } else if (text) {
+      result.push(text);
+    }
+  }
+  return result;
+}
+
+// Returns a string that is the same for two snapshots exactly when their
+// canonical tokens and options are.
+function canonicalKey(snapshot: URLPatternSnapshot, ignoreGroupNames: boolean): string {
+  const components: any = {};
+  let component: URLPatternKeys;
+  for (component of COMPONENTS) {
+    const { tokens } = snapshot.components[component as URLPatternComponent];
+    components[component] = canonicalTokens(tokens, ignoreGroupNames);
+  }
+  let searchParams: any;
+  if (snapshot.searchParams) {
+    searchParams = {};
+    for (const name of Object.keys(snapshot.searchParams).sort()) {
+      searchParams[name] = canonicalTokens(snapshot.searchParams[name].tokens, ignoreGroupNames);
+    }
+  }
+  return JSON.stringify([
+    snapshot.ignoreCase,
+    snapshot.match,
+    components,
+    searchParams,
+    snapshot.allowUnknownSearchParams === true,
+    snapshot.unicodeHostnameGroups === true,
+  ]);
+}
+
+// Validate and restore a compiled pattern from its snapshot.  The keys are
+// the tokens with a pattern, exactly as `tokensToRegexp()` collects them.
+function restoreComponent(value: URLPatternComponentSnapshot,
+                          description: string): CompiledPattern {
+  if (!value || typeof value.pattern !== 'string' ||
+      typeof value.regexp !== 'string' || typeof value.flags !== 'string' ||
+      !Array.isArray(value.tokens)) {
+    throw new TypeError(`invalid ${description} snapshot.`);
+  }
+  const tokens: Token[] = value.tokens.map(
+    (token) => typeof token === 'string' ? token : { ...token });
+  // Typed groups are converted when matched, so their types must exist.
+  for (const token of tokens) {
+    if (typeof token !== 'string' && token.type !== undefined) {
+      lookupParamType(token.type);
+    }
+  }
+  // Snapshots compiled with the `u` flag are rewritten for engines without
+  // it.
+  const regexp = value.flags.includes('u') && !supportsUnicodeRegExps() ?
+    new RegExp(toNonUnicodeSource(value.regexp, value.flags.includes('i')), value.flags.replace('u', '')) :
+    new RegExp(value.regexp, value.flags);
+  return {
+    pattern: value.pattern,
+    regexp,
+    keys: tokens.filter((token) => typeof token !== 'string' && token.pattern) as Key[],
+    tokens,
+  };
+}
+
+// A compiled component or `searchParams` pattern.
+interface CompiledPattern {
+  pattern: string;
+  regexp: RegExp;
+  keys: Key[];
+  tokens: Token[];
+}
+
+// Compile the patterns of a `searchParams` init member.  Parameter values
+// are matched after `URLSearchParams` has decoded them, so unlike the search
+// component the pattern text is not canonicalized.
+function compileSearchParams(searchParams: URLPatternSearchParamsInit,
+                             ignoreCase: boolean,
+                             unicode: boolean,
+                             types: {[group: string]: string},
+                             typedGroups: boolean,
+                             policy: PatternPolicy): {[name: string]: CompiledPattern} {
+  if (!searchParams || typeof searchParams !== 'object') {
+    throw new TypeError(`searchParams is not of type 'object'.`);
+  }
+  const options = Object.assign({}, DEFAULT_OPTIONS, { ignoreCase, unicode },
+                                typedGroups ? { typePattern } : {});
+  const result: {[name: string]: CompiledPattern} = {};
+  for (const name of Object.keys(searchParams)) {
+    const pattern = searchParams[name];
+    if (typeof pattern !== 'string') {
+      throw new TypeError(`invalid searchParams pattern for '${name}'.`);
+    }
+    const onGroup = policy.begin('search', pattern, name);
+    try {
+      const tokens = parse(pattern, Object.assign({}, options, { onGroup }));
+      applyGroupTypes(tokens, types, options);
+      const keys: Key[] = [];
+      const regexp = tokensToRegexp(tokens, keys, options);
+      result[name] = {
+        pattern: tokensToPattern(tokens, options),
+        regexp,
+        keys,
+        tokens,
+      };
+    } catch (err: any) {
+      if (err instanceof URLPatternSyntaxError) {
+        throw err.withComponent('search');
+      }
+      if (err instanceof URLPatternPolicyError) {
+        throw err;
+      }
+      throw new TypeError(`invalid searchParams pattern for '${name}'. ${err.message}`);
+    }
+  }
+  return result;
+}
+
 export class URLPattern {
   private pattern: URLPatternInit;
   private regexp: any = {};
   private keys: any = {};
+  private tokens: any = {};
+  private options: any = {};
   private component_pattern: any = {};
+  private search_params?: {[name: string]: CompiledPattern};
+  private allow_unknown_search_params = false;
+  private unicode_hostname_groups = false;
+  private validators?: {[group: string]: URLPatternValidator};
+  private constructor_string?: string;
+  private canonical_key?: string;
 
   constructor(init: URLPatternInit | string, baseURL?: string, options?: URLPatternOptions);
   constructor(init: URLPatternInit | string, options?: URLPatternOptions);
   constructor(init: URLPatternInit | string = {}, baseURLOrOptions?: string | URLPatternOptions, options?: URLPatternOptions) {
     try {
       let baseURL = undefined;
+      let input: string | undefined = undefined;
+      let offsets: {[component: string]: number} = {};
       if (typeof baseURLOrOptions === 'string') {
         baseURL = baseURLOrOptions;
       } else {
         options = baseURLOrOptions;
       }
 
+      if (typeof options === "undefined") {
+        options = { ignoreCase: false };
+      }
+      const policy = new PatternPolicy(options);
+
       if (typeof init === 'string') {
+        policy.checkConstructorString(init);
         const parser = new Parser(init);
         parser.parse();
+        input = init;
+        offsets = parser.offsets;
         init = parser.result;
         if (baseURL === undefined && typeof init.protocol !== 'string') {
           throw new TypeError(`A base URL must be provided for a relative constructor string.`);
@@ -343,11 +825,32 @@ export class URLPattern {
         }
       }
 
-      if (typeof options === "undefined") {
-        options = { ignoreCase: false };
+      const ignoreCase = options.ignoreCase === true;
+      if (options.match !== undefined && options.match !== 'exact' &&
+          options.match !== 'prefix') {
+        throw new TypeError(`invalid match option '${options.match}'.`);
+      }
+      const matchPrefix = options.match === 'prefix';
+      const unicode = options.unicodeRegExps === undefined ? supportsUnicodeRegExps() :
+        options.unicodeRegExps === true;
+
+      const types = options.types || {};
+      for (const group of Object.keys(types)) {
+        lookupParamType(types[group]);
+      }
+      // The `types` option writes its types inline in the component
+      // patterns, so it enables the inline syntax as well.
+      const typedGroups = options.typedGroups === true || options.types !== undefined;
+      if (options.validators !== undefined) {
+        for (const group of Object.keys(options.validators)) {
+          if (typeof options.validators[group] !== 'function') {
+            throw new TypeError(`validator for group '${group}' is not a function.`);
+          }
+        }
+        this.validators = Object.assign({}, options.validators);
       }
 
-      const ignoreCaseOptions = { ignoreCase: options.ignoreCase === true };
+      this.unicode_hostname_groups = options.unicodeHostnameGroups === true;
 
       const defaults: URLPatternInit = {
         pathname: DEFAULT_PATTERN,
@@ -360,12 +863,26 @@ export class URLPattern {
         hash: DEFAULT_PATTERN,
       };
 
+      const source = init;
+      if (source.searchParams !== undefined && typeof source.search === 'string') {
+        throw new TypeError(`searchParams cannot be combined with a search pattern.`);
+      }
       this.pattern = applyInit(defaults, init, true);
 
       if (defaultPortForProtocol(this.pattern.protocol) === this.pattern.port) {
         this.pattern.port = '';
       }
 
+      // The search parameters are matched separately, so the search
+      // component itself must accept any value.  This also overrides the
+      // search inherited from a baseURL.
+      if (source.searchParams !== undefined) {
+        this.search_params = compileSearchParams(source.searchParams, ignoreCase, unicode, types,
+                                                 typedGroups, policy);
+        this.allow_unknown_search_params = options.allowUnknownSearchParams === true;
+        this.pattern.search = DEFAULT_PATTERN;
+      }
+
       let component: URLPatternKeys;
       // Iterate in component order so we are sure to compile the protocol
       // before the pathname.  We need to know the protocol in order to know
@@ -373,67 +890,49 @@ export class URLPattern {
       for (component of COMPONENTS) {
         if (!(component in this.pattern))
           continue;
-        const options: TokensToRegexpOptions & ParseOptions = {};
-        const pattern = this.pattern[component];
+        const pattern = this.pattern[component] as string;
+        const options = componentOptions(component, pattern, this.regexp.protocol,
+                                         ignoreCase, matchPrefix, unicode, typedGroups);
         this.keys[component] = [];
-        switch (component) {
-          case 'protocol':
-            Object.assign(options, DEFAULT_OPTIONS);
-            options.encodePart = protocolEncodeCallback;
-            break;
-          case 'username':
-            Object.assign(options, DEFAULT_OPTIONS);
-            options.encodePart = usernameEncodeCallback;
-            break;
-          case 'password':
-            Object.assign(options, DEFAULT_OPTIONS);
-            options.encodePart = passwordEncodeCallback;
-            break;
-          case 'hostname':
-            Object.assign(options, HOSTNAME_OPTIONS);
-            if (treatAsIPv6Hostname(pattern)) {
-              options.encodePart = ipv6HostnameEncodeCallback;
-            } else {
-              options.encodePart = hostnameEncodeCallback;
-            }
-            break;
-          case 'port':
-            Object.assign(options, DEFAULT_OPTIONS);
-            options.encodePart = portEncodeCallback;
-            break;
-          case 'pathname':
-            if (isSpecialScheme(this.regexp.protocol)) {
-              Object.assign(options, PATHNAME_OPTIONS, ignoreCaseOptions);
-              options.encodePart = standardURLPathnameEncodeCallback;
-            } else {
-              Object.assign(options, DEFAULT_OPTIONS, ignoreCaseOptions);
-              options.encodePart = pathURLPathnameEncodeCallback;
-            }
-            break;
-          case 'search':
-            Object.assign(options, DEFAULT_OPTIONS, ignoreCaseOptions);
-            options.encodePart = searchEncodeCallback;
-            break;
-          case 'hash':
-            Object.assign(options, DEFAULT_OPTIONS, ignoreCaseOptions);
-            options.encodePart = hashEncodeCallback;
-            break;
-        }
+        const onGroup = policy.begin(component as URLPatternComponent, pattern);
         try {
-          const tokens = parse(pattern as string, options);
+          const tokens = parse(pattern, Object.assign({}, options, { onGroup }));
+          applyGroupTypes(tokens, types, options);
+          this.tokens[component] = tokens;
+          this.options[component] = options;
           this.regexp[component] = tokensToRegexp(tokens, this.keys[component], options);
           this.component_pattern[component] = tokensToPattern(tokens, options);
-        } catch {
-          // If a pattern is illegal the constructor will throw an exception
-          throw new TypeError(`invalid ${component} pattern '${this.pattern[component]}'.`);
+        } catch (err: any) {
+          // If a pattern is illegal the constructor will throw an exception.
+          // Syntax errors know where the mistake is, so report it against
+          // the constructor string when we have one.
+          if (err instanceof URLPatternSyntaxError) {
+            throw err.withComponent(component as URLPatternComponent, input,
+                                    inputIndexOf(err.index, pattern, source[component],
+                                                 offsets[component]));
+          }
+          if (err instanceof URLPatternPolicyError) {
+            throw err;
+          }
+          throw new TypeError(`invalid ${component} pattern '${this.pattern[component]}'. ${err.message}`);
+        }
+      }
+
+      if (options.rejectUnsafeRegExps) {
+        const [warning] = this.analyzeRegExps();
+        if (warning) {
+          throw new TypeError(warning.message);
         }
       }
     } catch (err: any) {
+      if (err instanceof URLPatternSyntaxError || err instanceof URLPatternPolicyError) {
+        throw err;
+      }
       throw new TypeError(`Failed to construct 'URLPattern': ${err.message}`);
     }
   }
 
-  test(input: string | URLPatternInit = {}, baseURL?: string) {
+  test(input: URLPatternMatchInput = {}, baseURL?: string | URLLike) {
     let values: URLPatternInit = {
       pathname: '',
       protocol: '',
@@ -454,7 +953,7 @@ export class URLPattern {
     }
 
     try {
-      if (typeof input === 'object') {
+      if (typeof input === 'object' && !isURLLike(input) && !isRequestLike(input)) {
         values = applyInit(values, input, false);
       } else {
         values = applyInit(values, extractValues(input, baseURL), false);
@@ -466,15 +965,24 @@ export class URLPattern {
 
     let component: URLPatternKeys;
     for (component of COMPONENTS) {
-      if (!this.regexp[component].exec(values[component])) {
+      const match = this.regexp[component].exec(values[component]);
+      if (!match) {
+        return false;
+      }
+      if (this.validators &&
+          !this.validate(component as URLPatternComponent, this.matchGroups(component, match))) {
         return false;
       }
     }
 
+    if (this.search_params && !this.execSearchParams(values.search!)) {
+      return false;
+    }
+
     return true;
   }
 
-  exec(input: string | URLPatternInit = {}, baseURL?: string): URLPatternResult | null | undefined {
+  exec(input: URLPatternMatchInput = {}, baseURL?: string | URLLike): URLPatternResult | null | undefined {
     let values: URLPatternInit = {
       pathname: '',
       protocol: '',
@@ -495,7 +1003,7 @@ export class URLPattern {
     }
 
     try {
-      if (typeof input === 'object') {
+      if (typeof input === 'object' && !isURLLike(input) && !isRequestLike(input)) {
         values = applyInit(values, input, false);
       } else {
         values = applyInit(values, extractValues(input, baseURL), false);
@@ -519,23 +1027,515 @@ export class URLPattern {
         return null;
       }
 
-      let groups = {} as Array<string>;
-      for (let [i, key] of this.keys[component].entries()) {
-        if (typeof key.name === 'string' || typeof key.name === 'number') {
-          let value = match[i + 1];
-          groups[key.name] = value;
-        }
+      const groups = this.matchGroups(component, match);
+      if (!this.validate(component as URLPatternComponent, groups)) {
+        return null;
       }
 
       result[component] = {
         input: values[component] || '',
         groups,
       };
+
+      // A prefix pattern reports the part of the pathname it did not match.
+      if (this.options[component].end === false) {
+        result[component].rest = values[component]!.substring(match[0].length);
+      }
+    }
+
+    if (this.search_params) {
+      const searchParams = this.execSearchParams(values.search!);
+      if (!searchParams) {
+        return null;
+      }
+      result.searchParams = searchParams;
     }
 
     return result;
   }
 
+  // Match the parameters of a canonical search string against the
+  // `searchParams` patterns, regardless of their order.  A parameter that is
+  // absent is matched as an empty value, so optional patterns accept it.  A
+  // repeated parameter must match on every occurrence, and its groups are
+  // taken from the first one.
+  private execSearchParams(search: string): {[name: string]: URLPatternSearchParamResult} | null {
+    const searchParams = this.search_params!;
+    let params: Array<[string, string]> = [];
+    if (usesBuiltinURLParser() || typeof URLSearchParams !== 'function') {
+      params = parseSearchParams(search);
+    } else {
+      new URLSearchParams(search).forEach((value, name) => params.push([name, value]));
+    }
+    if (!this.allow_unknown_search_params &&
+        params.some(([name]) => !Object.prototype.hasOwnProperty.call(searchParams, name))) {
+      return null;
+    }
+
+    const result: {[name: string]: URLPatternSearchParamResult} = {};
+    for (const name of Object.keys(searchParams)) {
+      const { regexp, keys } = searchParams[name];
+      const values = params.filter((param) => param[0] === name).map((param) => param[1]);
+      const inputs = values.length ? values : [''];
+      let groups: any = undefined;
+      for (const value of inputs) {
+        const match = regexp.exec(value);
+        if (!match) {
+          return null;
+        }
+        const occurrence = matchGroups(keys, match);
+        if (!this.validate('search', occurrence)) {
+          return null;
+        }
+        groups = groups || occurrence;
+      }
+      result[name] = { input: inputs[0], values, groups };
+    }
+    return result;
+  }
+
+  // Returns the groups of a component match, with the hostname groups in
+  // Unicode if the pattern was constructed with `unicodeHostnameGroups`.
+  private matchGroups(component: URLPatternKeys, match: RegExpExecArray): any {
+    const groups = matchGroups(this.keys[component], match);
+    if (component === 'hostname' && this.unicode_hostname_groups) {
+      for (const name of Object.keys(groups)) {
+        if (typeof groups[name] === 'string') {
+          groups[name] = domainToUnicode(groups[name]);
+        }
+      }
+    }
+    return groups;
+  }
+
+  // Returns false if a validator vetoes one of the given group values.
+  // Groups that did not participate in the match are not validated.
+  private validate(component: URLPatternComponent, groups: any): boolean {
+    if (!this.validators) {
+      return true;
+    }
+    for (const name of Object.keys(groups)) {
+      if (groups[name] === undefined ||
+          !Object.prototype.hasOwnProperty.call(this.validators, name)) {
+        continue;
+      }
+      if (!this.validators[name](groups[name], component)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  // Like `exec()`, but each group value is percent-decoded following the
+  // rules of its component, and groups with a `+` or `*` modifier are split
+  // into arrays.  The named groups of all components are also merged into
+  // `params`.  If several components capture the same name the later one in
+  // URL order wins, except that an unmatched optional group never replaces a
+  // value.  Anonymous groups are not merged.
+  execDecoded(input: URLPatternMatchInput = {},
+              baseURL?: string | URLLike): URLPatternDecodedResult | null {
+    const result = this.exec(input, baseURL);
+    if (!result) {
+      return null;
+    }
+
+    const decoded: any = Object.assign({}, result, { params: {} });
+    let component: URLPatternComponent;
+    for (component of COMPONENTS as URLPatternComponent[]) {
+      const groups: URLPatternDecodedGroups = {};
+      for (const key of this.keys[component] as Key[]) {
+        // Typed groups have already been converted by their parse function.
+        const matched = (result[component].groups as any)[key.name];
+        const value = key.type ? matched : decodeGroupValue(component, key, matched);
+        groups[key.name] = value;
+        if (typeof key.name === 'string' &&
+            (value !== undefined || !(key.name in decoded.params))) {
+          decoded.params[key.name] = value;
+        }
+      }
+      decoded[component] = Object.assign({}, result[component], { groups });
+    }
+    return decoded;
+  }
+
+  generate(component: 'href', groups?: URLPatternHrefGroupValues): string;
+  generate(component: URLPatternComponent, groups?: URLPatternGroupValues): string;
+  generate(component: URLPatternComponent | 'href',
+           groups: URLPatternGroupValues | URLPatternHrefGroupValues = {}): string {
+    if (!groups || typeof groups !== 'object') {
+      throw new TypeError(`parameter 2 is not of type 'object'.`);
+    }
+
+    if (component === 'href') {
+      return this.generateHref(groups as URLPatternHrefGroupValues);
+    }
+
+    if (!COMPONENTS.includes(component)) {
+      throw new TypeError(`Failed to generate: '${component}' is not a URL component.`);
+    }
+
+    return this.generateComponent(component, groups as URLPatternGroupValues);
+  }
+
+  // Build a single component string from the group values using the tokens
+  // parsed in the constructor.  Values are canonicalized with the same
+  // encode callback as the component pattern itself and then validated
+  // against the group's regexp.
+  private generateComponent(component: URLPatternComponent,
+                            groups: URLPatternGroupValues): string {
+    const tokens: Token[] = this.tokens[component];
+    const options = this.options[component];
+
+    // A full wildcard matches the empty string, so a missing value for a
+    // required wildcard group simply generates nothing.  This is what allows
+    // default `*` components to be omitted entirely.
+    const data: URLPatternGroupValues = {};
+    for (const token of tokens) {
+      if (typeof token !== 'string' && token.pattern === '.*' &&
+          (token.modifier === '' || token.modifier === '+')) {
+        data[token.name] = '';
+      }
+    }
+    Object.assign(data, groups);
+
+    try {
+      const toPath = tokensToFunction(tokens, {
+        ignoreCase: options.ignoreCase,
+        unicode: options.unicode,
+        encode: (value: string) => options.encodePart(value),
+      });
+      return toPath(data);
+    } catch (err: any) {
+      throw new TypeError(`Failed to generate ${component}: ${err.message}`);
+    }
+  }
+
+  private generateHref(groups: URLPatternHrefGroupValues): string {
+    const values: any = {};
+    let component: URLPatternKeys;
+    for (component of COMPONENTS) {
+      const componentGroups = groups[component as URLPatternComponent];
+      values[component] = this.generateComponent(component as URLPatternComponent,
+                                                 componentGroups || {});
+    }
+
+    let href = `${values.protocol}:`;
+    if (values.hostname !== '' || SPECIAL_SCHEMES.includes(values.protocol)) {
+      href += '//';
+      if (values.username !== '' || values.password !== '') {
+        href += values.username;
+        if (values.password !== '') {
+          href += `:${values.password}`;
+        }
+        href += '@';
+      }
+      href += values.hostname;
+      if (values.port !== '') {
+        href += `:${values.port}`;
+      }
+    }
+    href += values.pathname;
+    if (values.search !== '') {
+      href += `?${values.search}`;
+    }
+    if (values.hash !== '') {
+      href += `#${values.hash}`;
+    }
+
+    try {
+      return createURL(href).href;
+    } catch {
+      throw new TypeError(`Failed to generate href: '${href}' is not a valid URL.`);
+    }
+  }
+
+  // Return a plain object capturing the compiled state of every component.
+  // The snapshot survives `JSON.stringify()` and the structured clone
+  // algorithm, and `URLPattern.fromJSON()` restores it without re-parsing.
+  // Validators are functions and are not part of the snapshot.
+  toJSON(): URLPatternSnapshot {
+    const components: any = {};
+    let component: URLPatternKeys;
+    for (component of COMPONENTS) {
+      components[component] = snapshotComponent(
+        this.component_pattern[component], this.regexp[component], this.tokens[component]);
+    }
+    const snapshot: URLPatternSnapshot = {
+      version: SNAPSHOT_VERSION,
+      ignoreCase: this.options.pathname.ignoreCase === true,
+      match: this.options.pathname.end === false ? 'prefix' : 'exact',
+      components,
+    };
+    if (this.search_params) {
+      snapshot.searchParams = {};
+      for (const name of Object.keys(this.search_params)) {
+        const { pattern, regexp, tokens } = this.search_params[name];
+        snapshot.searchParams[name] = snapshotComponent(pattern, regexp, tokens);
+      }
+      snapshot.allowUnknownSearchParams = this.allow_unknown_search_params;
+    }
+    if (this.unicode_hostname_groups) {
+      snapshot.unicodeHostnameGroups = true;
+    }
+    return snapshot;
+  }
+
+  // Return a constructor string that the constructor parses back into the
+  // same component patterns.  Components holding the value the constructor
+  // string grammar gives them when they are missing, such as an empty search,
+  // are omitted.  Patterns using options that change what they match or
+  // `searchParams`, and the few whose components no constructor string can
+  // hold, such as a wildcard pathname after a hostname, throw a `TypeError`.
+  toString(): string {
+    if (this.constructor_string !== undefined) {
+      return this.constructor_string;
+    }
+    if (this.search_params || this.validators || this.unicode_hostname_groups ||
+        this.options.pathname.ignoreCase || this.options.pathname.end === false) {
+      throw new TypeError(`Failed to execute 'toString' on 'URLPattern': a constructor string cannot express the options or searchParams of the pattern.`);
+    }
+
+    const pattern = this.component_pattern;
+    const unwritable = (component: URLPatternKeys) => new TypeError(
+      `Failed to execute 'toString' on 'URLPattern': the ${component} pattern ` +
+      `'${pattern[component]}' cannot be written in a constructor string.`);
+    // As in the constructor string parser, a protocol matching a special
+    // scheme is always followed by an authority and defaults to a `/`
+    // pathname.
+    const standard = isSpecialScheme(this.regexp.protocol);
+    let rest = '';
+    if (standard || pattern.username || pattern.password || pattern.hostname || pattern.port) {
+      rest += '//';
+      if (pattern.username || pattern.password) {
+        rest += pattern.username;
+        if (pattern.password) {
+          rest += writeSeparator(':', pattern.password) + pattern.password;
+        }
+        rest += '@';
+      }
+      rest += pattern.hostname;
+      if (pattern.port) {
+        rest += writeSeparator(':', pattern.port) + pattern.port;
+      }
+      // Only a `/` ends the authority and starts the pathname.
+      if (!standard || pattern.pathname !== '/') {
+        if (pattern.pathname && !pattern.pathname.startsWith('/')) {
+          throw unwritable('pathname');
+        }
+        rest += pattern.pathname;
+      }
+    } else {
+      rest += pattern.pathname;
+    }
+    if (pattern.search) {
+      rest += writeSearchSeparator(`${pattern.protocol}:${rest}`) + pattern.search;
+    }
+    if (pattern.hash) {
+      rest += `#${pattern.hash}`;
+    }
+    const result = pattern.protocol + writeSeparator(':', rest) + rest;
+
+    let parsed: URLPattern | undefined;
+    try {
+      parsed = new URLPattern(result);
+    } catch {
+      // Checked below.
+    }
+    let component: URLPatternKeys;
+    for (component of COMPONENTS) {
+      if (!parsed || parsed.component_pattern[component] !== pattern[component]) {
+        throw unwritable(component);
+      }
+    }
+    this.constructor_string = result;
+    return result;
+  }
+
+  static fromJSON(snapshot: URLPatternSnapshot | string): URLPattern {
+    try {
+      if (typeof snapshot === 'string') {
+        snapshot = JSON.parse(snapshot) as URLPatternSnapshot;
+      }
+      if (!snapshot || typeof snapshot !== 'object' || !snapshot.components ||
+          typeof snapshot.components !== 'object') {
+        throw new TypeError(`parameter 1 is not a URLPattern snapshot.`);
+      }
+      if (snapshot.version !== SNAPSHOT_VERSION) {
+        throw new TypeError(`unsupported snapshot version '${snapshot.version}', expected '${SNAPSHOT_VERSION}'.`);
+      }
+
+      const result: URLPattern = Object.create(URLPattern.prototype);
+      result.pattern = {};
+      result.regexp = {};
+      result.keys = {};
+      result.tokens = {};
+      result.options = {};
+      result.component_pattern = {};
+      result.allow_unknown_search_params = false;
+      result.unicode_hostname_groups = snapshot.unicodeHostnameGroups === true;
+
+      let component: URLPatternKeys;
+      // As in the constructor the protocol must be restored before the
+      // pathname, since it determines the pathname options.
+      for (component of COMPONENTS) {
+        const value = restoreComponent((snapshot.components as any)[component], component);
+        result.pattern[component] = value.pattern;
+        result.tokens[component] = value.tokens;
+        result.keys[component] = value.keys;
+        result.regexp[component] = value.regexp;
+        result.options[component] = componentOptions(
+          component, value.pattern, result.regexp.protocol, snapshot.ignoreCase === true,
+          snapshot.match === 'prefix', value.regexp.unicode);
+        result.component_pattern[component] = value.pattern;
+      }
+
+      if (snapshot.searchParams !== undefined) {
+        if (!snapshot.searchParams || typeof snapshot.searchParams !== 'object') {
+          throw new TypeError(`invalid searchParams snapshot.`);
+        }
+        result.search_params = {};
+        for (const name of Object.keys(snapshot.searchParams)) {
+          result.search_params[name] = restoreComponent(
+            snapshot.searchParams[name], `searchParams '${name}'`);
+        }
+        result.allow_unknown_search_params = snapshot.allowUnknownSearchParams === true;
+      }
+      return result;
+    } catch (err: any) {
+      throw new TypeError(`Failed to restore 'URLPattern': ${err.message}`);
+    }
+  }
+
+  // Add a named parameter type usable as `:name<type>` in patterns and in
+  // the `types` option.  Types cannot be redefined.
+  static defineType(name: string, definition: URLPatternParamType): void {
+    defineParamType(name, definition);
+  }
+
+  // Select how URLs are parsed: with the global `URL` ('native'), with the
+  // built-in WHATWG URL parser ('builtin'), or with the global `URL` unless
+  // it is missing or fails a conformance check ('auto', the default).  The
+  // setting is global and applies to patterns constructed afterwards as
+  // well as to matching.
+  static setURLParser(parser: URLPatternURLParser): void {
+    setURLParser(parser);
+  }
+
+  // Returns whether some URL may be matched by both patterns.  Custom regexp
+  // groups the analysis cannot model are assumed to match anything, so this
+  // errs on the side of reporting an overlap.  Validators are not taken
+  // into account.
+  static intersects(left: URLPattern, right: URLPattern): boolean {
+    if (!(left instanceof URLPattern) || !(right instanceof URLPattern)) {
+      throw new TypeError(`Failed to execute 'intersects': parameters 1 and 2 must be of type 'URLPattern'.`);
+    }
+    return snapshotsIntersect(overlapSnapshot(left), overlapSnapshot(right));
+  }
+
+  // A string identifying the pattern up to the way it was written.  Patterns
+  // with the same canonical components, options and `searchParams` have the
+  // same key, even if one was constructed from a string and the other from
+  // an init dictionary.  Validators are functions and are not part of the
+  // key.
+  get canonicalKey(): string {
+    if (this.canonical_key === undefined) {
+      this.canonical_key = canonicalKey(overlapSnapshot(this), false);
+    }
+    return this.canonical_key;
+  }
+
+  // Returns whether two patterns have the same canonical key, and use the
+  // same validator function for each validated group.
+  static equals(left: URLPattern, right: URLPattern, options: URLPatternEqualsOptions = {}): boolean {
+    if (!(left instanceof URLPattern) || !(right instanceof URLPattern)) {
+      throw new TypeError(`Failed to execute 'equals': parameters 1 and 2 must be of type 'URLPattern'.`);
+    }
+    if (left === right) {
+      return true;
+    }
+    const leftValidators = left.validators || {};
+    const rightValidators = right.validators || {};
+    const groups = Object.keys(leftValidators);
+    if (groups.length !== Object.keys(rightValidators).length ||
+        groups.some((group) => leftValidators[group] !== rightValidators[group])) {
+      return false;
+    }
+    if (!options.ignoreGroupNames) {
+      return left.canonicalKey === right.canonicalKey;
+    }
+    return canonicalKey(overlapSnapshot(left), true) === canonicalKey(overlapSnapshot(right), true);
+  }
+
+  // Returns the regexps of the pattern that may backtrack catastrophically
+  // on some inputs.  Patterns built from untrusted input should be rejected
+  // when any are found, since matching a single URL could take seconds.
+  static analyze(pattern: URLPattern): URLPatternRegExpWarning[] {
+    if (!(pattern instanceof URLPattern)) {
+      throw new TypeError(`Failed to execute 'analyze': parameter 1 is not of type 'URLPattern'.`);
+    }
+    return pattern.analyzeRegExps();
+  }
+
+  private analyzeRegExps(): URLPatternRegExpWarning[] {
+    let searchParams: {[name: string]: Token[]} | undefined;
+    if (this.search_params) {
+      searchParams = {};
+      for (const name of Object.keys(this.search_params)) {
+        searchParams[name] = this.search_params[name].tokens;
+      }
+    }
+    return analyzeRegExps(this.tokens, searchParams, this.options.pathname.ignoreCase === true);
+  }
+
+  // Returns whether every URL matched by this pattern is also matched by
+  // `other`.  This is only true when it can be shown, so it is false if
+  // `other` has validators or custom regexp groups the analysis cannot
+  // model.
+  isSubsetOf(other: URLPattern): boolean {
+    if (!(other instanceof URLPattern)) {
+      throw new TypeError(`Failed to execute 'isSubsetOf': parameter 1 is not of type 'URLPattern'.`);
+    }
+    if (other.validators) {
+      return false;
+    }
+    return snapshotIsSubset(overlapSnapshot(this), overlapSnapshot(other));
+  }
+
+  // Compare the given component of two patterns by specificity.  Returns a
+  // positive number if `left` is more specific than `right`, a negative
+  // number if it is less specific and zero if they are equivalent.  Parts are
+  // compared in order; fixed text is more specific than a named segment,
+  // which is more specific than a custom regexp, which is more specific than
+  // a full wildcard.  Parts of the same kind are then ordered by modifier.
+  static compareComponent(component: URLPatternComponent, left: URLPattern,
+                          right: URLPattern): number {
+    if (!COMPONENTS.includes(component)) {
+      throw new TypeError(`Failed to compare: '${component}' is not a URL component.`);
+    }
+    if (!(left instanceof URLPattern) || !(right instanceof URLPattern)) {
+      throw new TypeError(`Failed to compare: parameters 2 and 3 must be of type 'URLPattern'.`);
+    }
+
+    const leftParts = tokensToParts(left.tokens[component], left.options[component]);
+    const rightParts = tokensToParts(right.tokens[component], right.options[component]);
+
+    let i = 0;
+    for (; i < leftParts.length && i < rightParts.length; ++i) {
+      const result = compareParts(leftParts[i], rightParts[i]);
+      if (result) {
+        return result;
+      }
+    }
+
+    if (i === leftParts.length && i !== rightParts.length) {
+      return compareParts(EMPTY_FIXED_PART, rightParts[i]);
+    }
+    if (i !== leftParts.length && i === rightParts.length) {
+      return compareParts(leftParts[i], EMPTY_FIXED_PART);
+    }
+    return 0;
+  }
+
   public get protocol() {
     return this.component_pattern.protocol;
   }
@@ -567,4 +1567,39 @@ export class URLPattern {
   public get hash() {
     return this.component_pattern.hash;
   }
+
+  // The canonical pattern of each search parameter, or undefined if the
+  // pattern was not constructed with `searchParams`.
+  public get searchParams(): URLPatternSearchParamsInit | undefined {
+    if (!this.search_params) {
+      return undefined;
+    }
+    const result: URLPatternSearchParamsInit = {};
+    for (const name of Object.keys(this.search_params)) {
+      result[name] = this.search_params[name].pattern;
+    }
+    return result;
+  }
+
+  // Whether any component or `searchParams` pattern has a group with a
+  // custom regexp, such as `:id(\d+)`.  Wildcards and typed groups are not
+  // regexp groups.
+  public get hasRegExpGroups(): boolean {
+    for (const component of COMPONENTS) {
+      const segmentPattern = segmentWildcardRegexp(this.options[component]);
+      if (this.tokens[component].some((token: Token) =>
+            typeof token !== 'string' && isRegExpGroup(token, segmentPattern))) {
+        return true;
+      }
+    }
+    const segmentPattern = segmentWildcardRegexp(DEFAULT_OPTIONS);
+    return Object.values(this.search_params || {}).some((compiled) =>
+      compiled.tokens.some((token) => typeof token !== 'string' && isRegExpGroup(token, segmentPattern)));
+  }
 }
+
+export { URLPatternList } from './url-pattern-list';
+export { URLPatternMap } from './url-pattern-map';
+export { parseShorthand, toShorthand } from './parseShorthand';
+export { URLPatternPolicyError } from './url-pattern-policy';
+export { URLPatternSyntaxError } from './url-pattern-syntax-error';
@@ -1,4 +1,6 @@
 import {ParseOptions, TokensToRegexpOptions} from './path-to-regex-modified';
+import {toURLHostname} from './url-pattern-idna';
+import {createURL} from './url-pattern-url';
 
 // default to strict mode and case sensitivity.  In addition, most
 // components have no concept of a delimiter or prefix character.
@@ -65,6 +67,33 @@ export function isAbsolutePathname(pathname: string, isPattern: boolean): boolea
   return false;
 }
 
+// Component values made only of code points the URL setters leave as they
+// are, which are therefore canonical already and are returned without
+// creating a URL object.  Code points some URL implementations encode and
+// others do not, such as `^` and `|`, always take the slow path so that
+// the result matches the URL in use.
+const CANONICAL_USERINFO = /^[-!$%&'()*+,.0-9A-Z_a-z~]*$/;
+const CANONICAL_PATHNAME = /^[-!$%&'()*+,./0-9:;=@A-Z[\]_a-z~]*$/;
+const CANONICAL_OPAQUE_PATHNAME = /^(?!\/)[- !$%&'()*+,./0-9:;=@A-Z[\]_a-z~]*$/;
+const CANONICAL_SEARCH = /^(?!\?)[-!$%&()*+,./0-9:;=?@A-Z[\]_a-z~]*$/;
+const CANONICAL_HASH = /^(?!#)[-!#$%&'()*+,./0-9:;=?@A-Z[\]_a-z~]*$/;
+// Lower case domains whose last label does not start with a digit, since
+// the host parser would try to read it as an IPv4 address, and without
+// `xn--` labels, which it would validate.
+const CANONICAL_HOSTNAME = /^(?:[-0-9a-z]+\.)*[-a-z][-0-9a-z]*\.?$/;
+const ACE_LABEL = /(?:^|\.)xn--/;
+const DOT_SEGMENT = /(?:^|\/)(?:\.|%2e){1,2}(?:\/|$)/i;
+
+function isCanonicalPathname(pathname: string): boolean {
+  return CANONICAL_PATHNAME.test(pathname) && !DOT_SEGMENT.test(pathname);
+}
+
+function isCanonicalOpaquePathname(pathname: string): boolean {
+  // Opaque paths keep their spaces, except trailing ones which the URL
+  // parser strips.
+  return CANONICAL_OPAQUE_PATHNAME.test(pathname) && !pathname.endsWith(' ');
+}
+
 function maybeStripPrefix(value: string, prefix: string): string {
   if (value.startsWith(prefix)) {
     return value.substring(prefix.length, value.length);
@@ -119,20 +148,20 @@ export function isSpecialScheme(protocol_regexp: any) {
 
 export function canonicalizeHash(hash: string, isPattern: boolean) {
   hash = maybeStripPrefix(hash, '#');
-  if (isPattern || hash === '') {
+  if (isPattern || hash === '' || CANONICAL_HASH.test(hash)) {
     return hash;
   }
-  const url = new URL("https://example.com");
+  const url = createURL("https://example.com");
   url.hash = hash;
   return url.hash ? url.hash.substring(1, url.hash.length) : '';
 }
 
 export function canonicalizeSearch(search: string, isPattern: boolean) {
   search = maybeStripPrefix(search, '?');
-  if (isPattern || search === '') {
+  if (isPattern || search === '' || CANONICAL_SEARCH.test(search)) {
     return search;
   }
-  const url = new URL("https://example.com");
+  const url = createURL("https://example.com");
   url.search = search;
   return url.search ? url.search.substring(1, url.search.length) : '';
 }
@@ -149,19 +178,19 @@ export function canonicalizeHostname(hostname: string, isPattern: boolean) {
 }
 
 export function canonicalizePassword(password: string, isPattern: boolean) {
-  if (isPattern || password === '') {
+  if (isPattern || password === '' || CANONICAL_USERINFO.test(password)) {
     return password;
   }
-  const url = new URL("https://example.com");
+  const url = createURL("https://example.com");
   url.password = password;
   return url.password;
 }
 
 export function canonicalizeUsername(username: string, isPattern: boolean) {
-  if (isPattern || username === '') {
+  if (isPattern || username === '' || CANONICAL_USERINFO.test(username)) {
     return username;
   }
-  const url = new URL("https://example.com");
+  const url = createURL("https://example.com");
   url.username = username;
   return url.username;
 }
@@ -173,12 +202,22 @@ export function canonicalizePathname(pathname: string, protocol: string | undefi
   }
 
   if (protocol && !SPECIAL_SCHEMES.includes(protocol)) {
-    const url = new URL(`${protocol}:${pathname}`);
+    // Pathnames without a leading slash are opaque, and a leading `//`
+    // would start an authority.
+    if (pathname[0] === '/' ? pathname[1] !== '/' && isCanonicalPathname(pathname) :
+                              isCanonicalOpaquePathname(pathname)) {
+      return pathname;
+    }
+    const url = createURL(`${protocol}:${pathname}`);
     return url.pathname;
   }
 
+  if (isCanonicalPathname(pathname)) {
+    return pathname;
+  }
+
   const leadingSlash = pathname[0] == "/";
-  pathname = new URL(!leadingSlash ? '/-' + pathname : pathname,
+  pathname = createURL(!leadingSlash ? '/-' + pathname : pathname,
                      "https://example.com").pathname;
   if (!leadingSlash) {
     pathname = pathname.substring(2, pathname.length);
@@ -234,19 +273,19 @@ export function protocolEncodeCallback(input: string): string {
 }
 
 export function usernameEncodeCallback(input: string): string {
-  if (input === '') {
+  if (input === '' || CANONICAL_USERINFO.test(input)) {
     return input;
   }
-  const url = new URL('https://example.com');
+  const url = createURL('https://example.com');
   url.username = input;
   return url.username;
 }
 
 export function passwordEncodeCallback(input: string): string {
-  if (input === '') {
+  if (input === '' || CANONICAL_USERINFO.test(input)) {
     return input;
   }
-  const url = new URL('https://example.com');
+  const url = createURL('https://example.com');
   url.password = input;
   return url.password;
 }
@@ -258,8 +297,11 @@ export function hostnameEncodeCallback(input: string): string {
   if (/[\t\n\r #%/:<>?@[\]^\\|]/g.test(input)) {
     throw(new TypeError(`Invalid hostname '${input}'`));
   }
-  const url = new URL('https://example.com');
-  url.hostname = input;
+  if (CANONICAL_HOSTNAME.test(input) && !ACE_LABEL.test(input)) {
+    return input;
+  }
+  const url = createURL('https://example.com');
+  url.hostname = toURLHostname(input);
   return url.hostname;
 }
 
@@ -286,10 +328,10 @@ export function portEncodeCallback(input: string): string {
 }
 
 export function standardURLPathnameEncodeCallback(input: string): string {
-  if (input === '') {
+  if (input === '' || isCanonicalPathname(input)) {
     return input;
   }
-  const url = new URL('https://example.com');
+  const url = createURL('https://example.com');
   url.pathname = input[0] !== '/' ? '/-' + input : input;
   if (input[0] !== '/') {
     return url.pathname.substring(2, url.pathname.length);
@@ -298,27 +340,27 @@ export function standardURLPathnameEncodeCallback(input: string): string {
 }
 
 export function pathURLPathnameEncodeCallback(input: string): string {
-  if (input === '') {
+  if (input === '' || isCanonicalOpaquePathname(input)) {
     return input;
   }
-  const url = new URL(`data:${input}`);
+  const url = createURL(`data:${input}`);
   return url.pathname;
 }
 
 export function searchEncodeCallback(input: string): string {
-  if (input === '') {
+  if (input === '' || CANONICAL_SEARCH.test(input)) {
     return input;
   }
-  const url = new URL('https://example.com');
+  const url = createURL('https://example.com');
   url.search = input;
   return url.search.substring(1, url.search.length);
 }
 
 export function hashEncodeCallback(input: string): string {
-  if (input === '') {
+  if (input === '' || CANONICAL_HASH.test(input)) {
     return input;
   }
-  const url = new URL('https://example.com');
+  const url = createURL('https://example.com');
   url.hash = input;
   return url.hash.substring(1, url.hash.length);
 }
@@ -0,0 +1,72 @@
+import test from "ava";
+import { URLPattern } from "urlpattern-polyfill/urlpattern";
+
+const analyze = (init, options) => URLPattern.analyze(new URLPattern(init, options));
+
+test("nested quantifiers are reported", (t) => {
+  const [warning, ...rest] = analyze({ pathname: "/:name((?:a+)+)" });
+  t.is(rest.length, 0);
+  t.is(warning.kind, "nested-quantifier");
+  t.is(warning.component, "pathname");
+  t.is(warning.group, "name");
+  t.regex(warning.message, /^The regexp of group 'name' in the pathname pattern /);
+
+  t.is(analyze({ hostname: "{:label}+" })[0].kind, "nested-quantifier");
+  t.deepEqual(analyze({ searchParams: { q: "(\\w*)*" } }).map((w) => [w.component, w.searchParam, w.group]), [
+    ["search", "q", 0],
+  ]);
+});
+
+test("overlapping alternatives under repetition are reported", (t) => {
+  t.deepEqual(analyze({ pathname: "/:x((?:a|ab)+)" }).map((w) => w.kind), ["overlapping-alternation"]);
+  t.deepEqual(analyze({ pathname: "/:x((?:A|a)+)" }), []);
+  t.deepEqual(analyze({ pathname: "/:x((?:A|a)+)" }, { ignoreCase: true }).map((w) => w.kind), [
+    "overlapping-alternation",
+  ]);
+});
+
+test("adjacent overlapping wildcards are reported", (t) => {
+  t.deepEqual(analyze({ pathname: "/*-*-*" }).map((w) => [w.kind, w.group]), [["overlapping-wildcards", 0]]);
+  const [warning] = analyze({ pathname: "/:a-:b-:c-:d" });
+  t.is(warning.message, "Groups 'a', 'b' and 'c' in the pathname pattern can split the same text in many ways.");
+  t.is(analyze({ pathname: "/(\\d+)(\\d+)(\\d+)" }).length, 1);
+});
+
+test("adjacent overlapping quantifiers within a regexp are reported", (t) => {
+  const [warning, ...rest] = analyze({ pathname: "/:x(\\d+\\d+\\d+)x" });
+  t.is(rest.length, 0);
+  t.is(warning.kind, "overlapping-quantifiers");
+  t.is(warning.group, "x");
+  t.is(warning.message,
+    "The regexp of group 'x' in the pathname pattern has adjacent quantifiers that can split the same text in many ways.");
+  t.deepEqual(analyze({ pathname: "/:x(.*.*.*)x" }).map((w) => w.kind), ["overlapping-quantifiers"]);
+  t.deepEqual(analyze({ pathname: "/:x(a*\\w+aa*)" }).map((w) => w.kind), ["overlapping-quantifiers"]);
+  t.deepEqual(analyze({ pathname: "/:x(\\d+-\\d+-\\d+)" }), []);
+  t.deepEqual(analyze({ pathname: "/:x(\\d+\\d+)" }), []);
+});
+
+test("common patterns are not reported", (t) => {
+  const inits = [
+    { pathname: "/users/:id/posts/:post" },
+    { pathname: "/files/*" },
+    { pathname: "/:name.:ext" },
+    { pathname: "/:path((?:[^/]+/)+)" },
+    { pathname: "/:segment(a+)+" },
+    { pathname: "/:a(\\d+)-:b(\\d+)-:c(\\d+)" },
+    { hostname: "{:subdomain.}+example.com" },
+    { pathname: "/:x((?:a|b)+)" },
+  ];
+  for (const init of inits) {
+    t.deepEqual(analyze(init), [], JSON.stringify(init));
+  }
+  t.deepEqual(analyze({ pathname: "/:a<int>-:b<int>-:c<int>" }, { typedGroups: true }), []);
+});
+
+test("unsafe regexps can be rejected at construction", (t) => {
+  const err = t.throws(() => new URLPattern("https://example.com/*-*-*", { rejectUnsafeRegExps: true }), {
+    instanceOf: TypeError,
+  });
+  t.regex(err.message, /^Failed to construct 'URLPattern': Groups 0, 1 and 2 in the pathname pattern/);
+  t.notThrows(() => new URLPattern("https://example.com/:a-:b", { rejectUnsafeRegExps: true }));
+  t.throws(() => URLPattern.analyze("/*-*-*"), { instanceOf: TypeError });
+});
@@ -0,0 +1,35 @@
+import test from "ava";
+import { readFileSync } from "fs";
+import { URLPattern } from "urlpattern-polyfill/ascii";
+import { URLPattern as FullURLPattern } from "urlpattern-polyfill/urlpattern";
+
+test("group names are ASCII identifiers", (t) => {
+  const pattern = new URLPattern({ pathname: "/:first_name/:$id/:x2" });
+  t.deepEqual(pattern.exec("https://example.com/a/b/c").pathname.groups, { first_name: "a", $id: "b", x2: "c" });
+  t.is(new URLPattern({ pathname: "/:name.json" }).exec("https://example.com/a.json").pathname.groups.name, "a");
+});
+
+test("non-ASCII group names are rejected with a clear error", (t) => {
+  for (const pathname of ["/:café", "/:été"]) {
+    const err = t.throws(() => new URLPattern({ pathname }), { instanceOf: TypeError });
+    t.regex(err.message, /only allows ASCII names/);
+  }
+  t.is(new FullURLPattern({ pathname: "/:café" }).exec("https://example.com/x").pathname.groups["café"], "x");
+});
+
+test("other non-ASCII characters end group names as in the full build", (t) => {
+  for (const pathname of ["/:id€", "/:id→x", "/:a-:b—c"]) {
+    t.is(new URLPattern({ pathname }).pathname, new FullURLPattern({ pathname }).pathname, pathname);
+  }
+  const pattern = new URLPattern({ pathname: "/:id€" });
+  t.deepEqual(pattern.exec("https://example.com/7€").pathname.groups, { id: "7" });
+  t.deepEqual(pattern.exec("https://example.com/7€").pathname.groups,
+    new FullURLPattern({ pathname: "/:id€" }).exec("https://example.com/7€").pathname.groups);
+});
+
+test("the ASCII build does not include the Unicode identifier tables", (t) => {
+  const ascii = readFileSync(new URL("../dist/urlpattern-ascii.js", import.meta.url), "utf8");
+  const full = readFileSync(new URL("../dist/urlpattern.js", import.meta.url), "utf8");
+  t.false(ascii.includes("\\uFFDA-\\uFFDC"));
+  t.true(full.includes("\\uFFDA-\\uFFDC"));
+});
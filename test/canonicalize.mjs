@@ -0,0 +1,104 @@
+import test from "ava";
+import { URLPattern } from "urlpattern-polyfill/urlpattern";
+
+// Canonicalization as it was done before the fast path, with a URL object
+// for every value.
+function setter(component, value) {
+  const url = new URL("https://example.com");
+  url[component] = value;
+  return url[component];
+}
+
+const expected = {
+  username: (value) => setter("username", value),
+  password: (value) => setter("password", value),
+  hostname: (value) => {
+    if (/[\t\n\r #%/:<>?@[\]^\\|]/.test(value)) {
+      throw new TypeError(value);
+    }
+    return setter("hostname", value);
+  },
+  pathname: (value) => {
+    const leadingSlash = value[0] === "/";
+    const pathname = new URL(leadingSlash ? value : "/-" + value, "https://example.com").pathname;
+    return leadingSlash ? pathname : pathname.substring(2);
+  },
+  search: (value) => setter("search", value.replace(/^\?/, "")).substring(1),
+  hash: (value) => setter("hash", value.replace(/^#/, "")).substring(1),
+};
+
+const alphabet = [
+  ..."abcxyzABC019-._~!$&'()*+,;=:@/?#[]^|`{}<>\"\\% \t",
+  "%2e", "%2E", "..", "xn--", "é", "\u{1F600}", "\u0000", "\u007f",
+];
+
+// A deterministic sequence of strings over `alphabet`.
+function* values(count) {
+  let seed = 1;
+  const random = (n) => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed % n;
+  };
+  for (let i = 0; i < count; ++i) {
+    let value = "";
+    for (let length = random(8) + 1; length > 0; --length) {
+      value += alphabet[random(alphabet.length)];
+    }
+    yield value;
+  }
+}
+
+for (const component of Object.keys(expected)) {
+  test(`${component} values are canonicalized as URL does`, (t) => {
+    const pattern = new URLPattern({});
+    for (const value of values(500)) {
+      let canonical = null;
+      try {
+        canonical = expected[component](value);
+      } catch {}
+      const result = pattern.exec({ [component]: value });
+      t.is(result && result[component].input, canonical, JSON.stringify(value));
+    }
+  });
+}
+
+test("non-special pathnames are canonicalized as URL does", (t) => {
+  const pattern = new URLPattern({});
+  for (const value of values(500)) {
+    let canonical = null;
+    try {
+      canonical = new URL(`foo:${value}`).pathname;
+    } catch {}
+    const result = pattern.exec({ protocol: "foo", pathname: value });
+    t.is(result && result.pathname.input, canonical, JSON.stringify(value));
+  }
+});
+
+// Pattern text is canonicalized with the URL setters, including pathnames.
+const setters = {
+  ...expected,
+  pathname: (value) => {
+    const leadingSlash = value[0] === "/";
+    const pathname = setter("pathname", leadingSlash ? value : "/-" + value);
+    return leadingSlash ? pathname : pathname.substring(2);
+  },
+};
+
+test("pattern text is canonicalized as URL does", (t) => {
+  for (const component of Object.keys(setters)) {
+    for (const value of values(500)) {
+      if (/[+*?:{}()\\]/.test(value)) {
+        continue;
+      }
+      let canonical = null;
+      try {
+        canonical = setters[component](value);
+      } catch {}
+      let pattern = null;
+      try {
+        pattern = new URLPattern({ [component]: value })[component];
+      } catch {}
+      t.is(pattern, canonical, `${component} ${JSON.stringify(value)}`);
+    }
+  }
+});
@@ -0,0 +1,68 @@
+import test from "ava";
+import { URLPattern, URLPatternList } from "urlpattern-polyfill/urlpattern";
+
+const baseURL = "https://example.com";
+
+function compare(left, right, component = "pathname") {
+  return URLPattern.compareComponent(
+    component,
+    new URLPattern({ [component]: left }),
+    new URLPattern({ [component]: right })
+  );
+}
+
+test("fixed text is more specific than groups", (t) => {
+  t.true(compare("/foo/bar", "/foo/:id") > 0);
+  t.true(compare("/foo/:id", "/foo/bar") < 0);
+});
+
+test("named segments are more specific than regexps and wildcards", (t) => {
+  t.true(compare("/foo/:id", "/foo/(\\d+)") > 0);
+  t.true(compare("/foo/(\\d+)", "/foo/*") > 0);
+  t.true(compare("/foo/:id", "/foo/*") > 0);
+});
+
+test("modifiers are considered", (t) => {
+  t.true(compare("/foo/:id", "/foo/:id+") > 0);
+  t.true(compare("/foo/:id+", "/foo/:id?") > 0);
+  t.true(compare("/foo/:id?", "/foo/:id*") > 0);
+});
+
+test("a shorter pattern is more specific than a trailing wildcard", (t) => {
+  t.true(compare("/foo", "/foo/*") > 0);
+  t.true(compare("/foo/*", "/foo") < 0);
+});
+
+test("equivalent patterns compare equal", (t) => {
+  t.is(compare("/foo/:id", "/foo/:id"), 0);
+  t.is(compare("/foo/:a", "/foo/:b"), 0);
+  t.is(compare("*", "*", "hostname"), 0);
+});
+
+test("compareComponent validates its arguments", (t) => {
+  const pattern = new URLPattern({ pathname: "/foo" });
+  t.throws(() => URLPattern.compareComponent("origin", pattern, pattern), { instanceOf: TypeError });
+  t.throws(() => URLPattern.compareComponent("pathname", pattern, {}), { instanceOf: TypeError });
+});
+
+test("URLPatternList keeps insertion order by default", (t) => {
+  const list = new URLPatternList([
+    new URLPattern({ pathname: "/foo/*" }),
+    new URLPattern({ pathname: "/foo/bar" }),
+  ]);
+  t.deepEqual(list.exec(baseURL + "/foo/bar").pathname.groups, { 0: "bar" });
+});
+
+test("URLPatternList sorts by specificity when requested", (t) => {
+  const list = new URLPatternList(
+    [
+      new URLPattern({ pathname: "/foo/*" }),
+      new URLPattern({ pathname: "/foo/:id" }),
+      new URLPattern({ pathname: "/foo/bar" }),
+    ],
+    { sort: true }
+  );
+  t.deepEqual(list.exec(baseURL + "/foo/bar").pathname.groups, {});
+  t.deepEqual(list.exec(baseURL + "/foo/baz").pathname.groups, { id: "baz" });
+  t.deepEqual(list.exec(baseURL + "/foo/a/b").pathname.groups, { 0: "a/b" });
+});
@@ -0,0 +1,77 @@
+import test from "ava";
+import { URLPattern } from "urlpattern-polyfill/urlpattern";
+
+test("patterns written differently are equal", (t) => {
+  const pairs = [
+    [{ pathname: "/foo/:id" }, { pathname: "/foo{/:id}" }],
+    [{ pathname: "/foo" }, { pathname: "{/foo}" }],
+    [{ pathname: "/files/*" }, { pathname: "/files/(.*)" }],
+    [{ hostname: "EXAMPLE.com", pathname: "/a" }, { hostname: "example.com", pathname: "/a" }],
+  ];
+  for (const [left, right] of pairs) {
+    t.true(URLPattern.equals(new URLPattern(left), new URLPattern(right)), JSON.stringify(left));
+    t.is(new URLPattern(left).canonicalKey, new URLPattern(right).canonicalKey);
+  }
+
+  const string = new URLPattern("https://example.com:443/a");
+  const init = new URLPattern({
+    protocol: "https",
+    username: "",
+    password: "",
+    hostname: "example.com",
+    port: "",
+    pathname: "/a",
+    search: "",
+    hash: "",
+  });
+  t.true(URLPattern.equals(string, init));
+});
+
+test("patterns that match differently are not equal", (t) => {
+  const pattern = new URLPattern({ pathname: "/a" });
+  t.false(URLPattern.equals(pattern, new URLPattern({ pathname: "/b" })));
+  t.false(URLPattern.equals(pattern, new URLPattern({ pathname: "/a" }, { ignoreCase: true })));
+  t.false(URLPattern.equals(pattern, new URLPattern({ pathname: "/a" }, { match: "prefix" })));
+  t.false(URLPattern.equals(pattern, new URLPattern({ pathname: "/a", search: "" })));
+  t.false(URLPattern.equals(
+    new URLPattern({ pathname: "/:id" }),
+    new URLPattern({ pathname: "/:id<int>" }, { typedGroups: true })
+  ));
+  t.false(URLPattern.equals(
+    new URLPattern({ searchParams: { q: "*" } }),
+    new URLPattern({ searchParams: { q: "*" } }, { allowUnknownSearchParams: true })
+  ));
+  t.throws(() => URLPattern.equals(pattern, { pathname: "/a" }), { instanceOf: TypeError });
+});
+
+test("group names can be ignored", (t) => {
+  const id = new URLPattern({ pathname: "/users/:id(\\d+)" });
+  const name = new URLPattern({ pathname: "/users/:name(\\d+)" });
+  const unnamed = new URLPattern({ pathname: "/users/(\\d+)" });
+  t.false(URLPattern.equals(id, name));
+  t.true(URLPattern.equals(id, name, { ignoreGroupNames: true }));
+  t.true(URLPattern.equals(id, unnamed, { ignoreGroupNames: true }));
+  t.not(id.canonicalKey, name.canonicalKey);
+});
+
+test("validators must be the same functions", (t) => {
+  const positive = (value) => Number(value) > 0;
+  const left = new URLPattern({ pathname: "/:id" }, { validators: { id: positive } });
+  t.true(URLPattern.equals(left, new URLPattern({ pathname: "/:id" }, { validators: { id: positive } })));
+  t.false(URLPattern.equals(left, new URLPattern({ pathname: "/:id" })));
+  t.false(URLPattern.equals(left, new URLPattern({ pathname: "/:id" }, { validators: { id: () => true } })));
+});
+
+test("canonical keys deduplicate patterns in a Map", (t) => {
+  const routes = new Map();
+  for (const init of [{ pathname: "/a/:id" }, { pathname: "/a{/:id}" }, { pathname: "/b" }]) {
+    const pattern = new URLPattern(init);
+    if (!routes.has(pattern.canonicalKey)) {
+      routes.set(pattern.canonicalKey, pattern);
+    }
+  }
+  t.is(routes.size, 2);
+
+  const pattern = new URLPattern({ pathname: "/a/:id" });
+  t.is(URLPattern.fromJSON(JSON.stringify(pattern)).canonicalKey, pattern.canonicalKey);
+});
@@ -0,0 +1,57 @@
+import test from "ava";
+import { URLPattern } from "urlpattern-polyfill/urlpattern";
+
+test("execDecoded percent-decodes group values", (t) => {
+  const pattern = new URLPattern({ pathname: "/files/:name" });
+  const result = pattern.execDecoded("https://example.com/files/caf%C3%A9%20menu");
+  t.is(result.pathname.groups.name, "café menu");
+  t.is(result.pathname.input, "/files/caf%C3%A9%20menu");
+  t.is(pattern.exec("https://example.com/files/a%20b").pathname.groups.name, "a%20b");
+});
+
+test("execDecoded leaves malformed escapes in place", (t) => {
+  const pattern = new URLPattern({ pathname: "/files/:name" });
+  t.is(pattern.execDecoded("https://example.com/files/100%25%zz").pathname.groups.name, "100%%zz");
+});
+
+test("execDecoded decodes plus signs only in the search", (t) => {
+  const pattern = new URLPattern({ pathname: "/:name", search: "q=:query" });
+  const result = pattern.execDecoded("https://example.com/a+b?q=red+shoes%21");
+  t.is(result.pathname.groups.name, "a+b");
+  t.is(result.search.groups.query, "red shoes!");
+});
+
+test("execDecoded splits repeated groups into arrays", (t) => {
+  const pattern = new URLPattern({ pathname: "/files/:path+" });
+  t.deepEqual(
+    pattern.execDecoded("https://example.com/files/a/b%2Fc/d%20e").pathname.groups.path,
+    ["a", "b/c", "d e"]
+  );
+
+  const optional = new URLPattern({ pathname: "/files/:path*" });
+  t.deepEqual(optional.execDecoded("https://example.com/files").pathname.groups.path, []);
+
+  const hostname = new URLPattern({ hostname: "{:sub.}+example.com" });
+  t.deepEqual(
+    hostname.execDecoded("https://a.b.example.com/").hostname.groups.sub,
+    ["a", "b"]
+  );
+});
+
+test("execDecoded merges named groups into params", (t) => {
+  const pattern = new URLPattern({
+    hostname: ":tenant.example.com",
+    pathname: "/:id/:tab?",
+    hash: ":id",
+  });
+  const result = pattern.execDecoded("https://acme.example.com/7#top");
+  t.deepEqual(result.params, { tenant: "acme", id: "top", tab: undefined });
+
+  const optional = new URLPattern({ pathname: "/:id", hash: ":id?" });
+  t.is(optional.execDecoded("https://example.com/7").params.id, "7");
+});
+
+test("execDecoded returns null when there is no match", (t) => {
+  const pattern = new URLPattern({ pathname: "/files/:name" });
+  t.is(pattern.execDecoded("https://example.com/other"), null);
+});
@@ -0,0 +1,66 @@
+import test from "ava";
+import { URLPattern } from "urlpattern-polyfill/urlpattern";
+
+test("generate pathname from named groups", (t) => {
+  const pattern = new URLPattern({ pathname: "/api/:product/:param?" });
+  t.is(pattern.generate("pathname", { product: "videos", param: "12" }), "/api/videos/12");
+  t.is(pattern.generate("pathname", { product: "videos" }), "/api/videos");
+});
+
+test("generate applies the component encoding", (t) => {
+  const pattern = new URLPattern({ pathname: "/files/:name" });
+  t.is(pattern.generate("pathname", { name: "a b" }), "/files/a%20b");
+});
+
+test("generate repeated groups from arrays", (t) => {
+  const pattern = new URLPattern({ pathname: "/files/:path+" });
+  t.is(pattern.generate("pathname", { path: ["a", "b", "c"] }), "/files/a/b/c");
+
+  const optional = new URLPattern({ pathname: "/files/:path*" });
+  t.is(optional.generate("pathname", { path: [] }), "/files");
+});
+
+test("generate validates custom regexp groups", (t) => {
+  const pattern = new URLPattern({ pathname: "/users/:id(\\d+)" });
+  t.is(pattern.generate("pathname", { id: "42" }), "/users/42");
+  t.throws(() => pattern.generate("pathname", { id: "abc" }), {
+    instanceOf: TypeError,
+    message: /pathname.*"id"/,
+  });
+});
+
+test("generate throws on missing or invalid values", (t) => {
+  const pattern = new URLPattern({ pathname: "/users/:id" });
+  t.throws(() => pattern.generate("pathname", {}), { instanceOf: TypeError, message: /"id"/ });
+  t.throws(() => pattern.generate("pathname", { id: "a/b" }), { instanceOf: TypeError });
+  t.throws(() => pattern.generate("pathname", { id: ["a"] }), { instanceOf: TypeError });
+  t.throws(() => pattern.generate("origin", {}), { instanceOf: TypeError });
+});
+
+test("generate href from all components", (t) => {
+  const pattern = new URLPattern("https://:sub.example.com/api/:product\\?q=:query#*");
+  t.is(
+    pattern.generate("href", {
+      hostname: { sub: "shop" },
+      pathname: { product: "videos" },
+      search: { query: "cats" },
+    }),
+    "https://shop.example.com/api/videos?q=cats"
+  );
+});
+
+test("generate href with port and credentials", (t) => {
+  const pattern = new URLPattern({
+    protocol: "https",
+    username: ":user",
+    hostname: "example.com",
+    port: "8080",
+    pathname: "/",
+  });
+  t.is(pattern.generate("href", { username: { user: "bob" } }), "https://bob@example.com:8080/");
+});
+
+test("generate href throws when the URL is incomplete", (t) => {
+  const pattern = new URLPattern({ pathname: "/foo" });
+  t.throws(() => pattern.generate("href"), { instanceOf: TypeError });
+});
@@ -0,0 +1,81 @@
+import test from "ava";
+
+// Replace `URL` with one that cannot convert Unicode hostnames, as in
+// runtimes built with small or no ICU data, before the polyfill uses it.
+const NativeURL = globalThis.URL;
+const NON_ASCII = /[^\x00-\x7F]/;
+class NoIDNAURL extends NativeURL {
+  constructor(url, base) {
+    for (const value of [url, base]) {
+      const authority = /^[a-z]+:\/\/([^/?#]*)/i.exec(String(value));
+      if (authority && NON_ASCII.test(authority[1])) {
+        throw new TypeError("Invalid URL");
+      }
+    }
+    super(url, base);
+  }
+  get hostname() {
+    return super.hostname;
+  }
+  set hostname(value) {
+    if (!NON_ASCII.test(value)) {
+      super.hostname = value;
+    }
+  }
+}
+globalThis.URL = NoIDNAURL;
+const { URLPattern } = await import("urlpattern-polyfill/urlpattern");
+
+test("Unicode hostnames are converted without IDNA support", (t) => {
+  const hostnames = ["münchen.de", "MÜNCHEN.de", "日本語.jp", "пример.рф", "ΣΊΣΥΦΟΣ.gr", "faß.de", "ＡＢＣ。com"];
+  for (const hostname of hostnames) {
+    t.is(new URLPattern({ hostname }).hostname, new NativeURL(`https://${hostname}`).hostname, hostname);
+  }
+  t.is(new URLPattern("https://{:sub.}?bücher.example/*").hostname, "{:sub.}?xn--bcher-kva.example");
+});
+
+test("Unicode hostnames are mapped as URL maps them", (t) => {
+  const hostnames = ["ẞ.de", "ı.tr", "ᾳ.gr", "ϲ.gr", "𝛓.gr", "ᲀ.ru", "a\u2064b.de"];
+  const blocks = [[0x0370, 0x03FF], [0x13A0, 0x13FF], [0x1C80, 0x1C8F], [0x1F00, 0x1FFF], [0xAB70, 0xABBF]];
+  for (const [first, last] of blocks) {
+    for (let code = first; code <= last; ++code) {
+      hostnames.push(`a${String.fromCodePoint(code)}b.de`);
+    }
+  }
+  for (const hostname of hostnames) {
+    let expected;
+    try {
+      expected = new NativeURL(`https://${hostname}`).hostname;
+    } catch {
+      // Characters URL disallows are converted rather than rejected.
+      continue;
+    }
+    t.is(new URLPattern({ hostname }).hostname, expected, hostname);
+  }
+  t.is(new URLPattern({ hostname: "ẞ.de" }).hostname, "ss.de");
+});
+
+test("Unicode URLs are matched without IDNA support", (t) => {
+  const pattern = new URLPattern({ hostname: "münchen.de", pathname: "/*" });
+  t.true(pattern.test("https://münchen.de/stadt"));
+  t.true(pattern.test("https://xn--mnchen-3ya.de/stadt"));
+  t.true(pattern.test({ hostname: "MÜNCHEN.de", pathname: "/" }));
+  t.true(new URLPattern({ pathname: "/a" }, { ignoreCase: false }).test("/a", "https://münchen.de"));
+  t.false(pattern.test("https://munchen.de/stadt"));
+});
+
+test("hostname groups can be reported in Unicode", (t) => {
+  const ascii = new URLPattern({ hostname: ":city.de" });
+  t.is(ascii.exec("https://münchen.de/").hostname.groups.city, "xn--mnchen-3ya");
+
+  const unicode = new URLPattern({ hostname: ":city.de" }, { unicodeHostnameGroups: true });
+  const result = unicode.exec("https://münchen.de/");
+  t.is(result.hostname.input, "xn--mnchen-3ya.de");
+  t.deepEqual(result.hostname.groups, { city: "münchen" });
+  t.is(new URLPattern({ hostname: "*" }, { unicodeHostnameGroups: true })
+    .exec("https://www.xn--bcher-kva.example/").hostname.groups[0], "www.bücher.example");
+
+  const restored = URLPattern.fromJSON(JSON.stringify(unicode));
+  t.is(restored.exec("https://münchen.de/").hostname.groups.city, "münchen");
+  t.false(URLPattern.equals(ascii, unicode));
+});
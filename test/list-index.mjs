@@ -0,0 +1,146 @@
+import test from "ava";
+import { URLPattern, URLPatternList } from "urlpattern-polyfill/urlpattern";
+
+// A route table resembling a gateway: mostly fixed hosts and path prefixes,
+// with some wildcard, regexp, case-insensitive and prefix-matched routes.
+function routes(count) {
+  const result = [];
+  for (let i = 0; i < count; ++i) {
+    const host = `svc${i % 40}.example.com`;
+    switch (i % 10) {
+      case 0:
+        result.push(new URLPattern({ hostname: host, pathname: `/api/v${i % 3}/items${i}/:id` }));
+        break;
+      case 1:
+        result.push({ protocol: "https", hostname: host, pathname: `/api/v${i % 3}/items${i}` });
+        break;
+      case 2:
+        result.push(new URLPattern({ hostname: `*.tenant${i % 7}.example.org`, pathname: `/t/${i}/*` }));
+        break;
+      case 3:
+        result.push(new URLPattern({ pathname: `/files/${i}/:name(\\d+).:ext` }));
+        break;
+      case 4:
+        result.push(new URLPattern({ hostname: host, pathname: `/Docs/${i}` }, { ignoreCase: true }));
+        break;
+      case 5:
+        result.push(new URLPattern({ hostname: host, pathname: `/mount${i}/` }, { match: "prefix" }));
+        break;
+      case 6:
+        result.push(new URLPattern({ protocol: "http{s}?", hostname: host, pathname: `/legacy/${i}{/}?` }));
+        break;
+      case 7:
+        result.push(new URLPattern({ hostname: "{:sub.}?example.net", pathname: `/n/${i}/:rest*` }));
+        break;
+      case 8:
+        result.push(new URLPattern({ protocol: "wss", hostname: host, pathname: `/socket/${i}` }));
+        break;
+      default:
+        result.push(new URLPattern({ hostname: host, pathname: `/api/v${i % 3}/items${i}/*` }));
+    }
+  }
+  // Catch-all routes at the end match whatever nothing else matched.
+  result.push(new URLPattern({ pathname: "/api/*" }), new URLPattern({}));
+  return result;
+}
+
+function inputs(count) {
+  const result = [];
+  for (let i = 0; i < count; ++i) {
+    const host = `svc${i % 40}.example.com`;
+    result.push(
+      `https://${host}/api/v${i % 3}/items${i}/${i}`,
+      `https://${host}/api/v${i % 3}/items${i}`,
+      `https://a.b.tenant${i % 7}.example.org/t/${i}/x/y`,
+      `https://example.net/files/${i}/12.png`,
+      `https://${host}/docs/${i}`,
+      `https://${host}/mount${i}/deep/path`,
+      `http://${host}/legacy/${i}/`,
+      `https://x.example.net/n/${i}/a/b`,
+      `wss://${host}/socket/${i}`,
+      `https://${host}/missing/${i}`
+    );
+  }
+  result.push(
+    { hostname: "svc1.example.com", pathname: "/api/v1/items1" },
+    { protocol: "https", hostname: "svc0.example.com", pathname: "/api/v0/items0/7" },
+    "not a url",
+    "data:text/plain,hello"
+  );
+  return result;
+}
+
+const patterns = routes(2000);
+const indexed = new URLPatternList(patterns);
+const linear = new URLPatternList(patterns, { index: false });
+
+test("the index finds the same matches as a linear scan", (t) => {
+  for (const input of inputs(20)) {
+    const expected = linear.execAll(input);
+    t.deepEqual(
+      indexed.execAll(input).map((result) => result.index),
+      expected.map((result) => result.index),
+      JSON.stringify(input)
+    );
+    t.is(indexed.exec(input)?.index, expected[0]?.index);
+    t.is(indexed.test(input), expected.length > 0);
+  }
+});
+
+test("the index keeps the order of sorted lists", (t) => {
+  const subset = patterns.slice(0, 300);
+  const sortedIndexed = new URLPatternList(subset, { sort: true });
+  const sortedLinear = new URLPatternList(subset, { sort: true, index: false });
+  for (const input of inputs(10)) {
+    t.deepEqual(
+      sortedIndexed.execAll(input).map((result) => result.index),
+      sortedLinear.execAll(input).map((result) => result.index)
+    );
+  }
+});
+
+test("the index supports baseURL inputs", (t) => {
+  t.is(indexed.exec("/api/v1/items1", "https://svc1.example.com").index, 1);
+  t.is(indexed.exec("/api/v1/items1", "https://svc1.example.com").index,
+    linear.exec("/api/v1/items1", "https://svc1.example.com").index);
+});
+
+test("indexed lookups only try a few candidates", (t) => {
+  // Count the patterns the list tries, by the calls to their `exec()`.
+  let calls = 0;
+  const counted = patterns.map((pattern) => {
+    const copy = pattern instanceof URLPattern ? URLPattern.fromJSON(JSON.stringify(pattern)) : new URLPattern(pattern);
+    const exec = copy.exec;
+    copy.exec = function (...args) {
+      ++calls;
+      return exec.apply(this, args);
+    };
+    return copy;
+  });
+  const list = new URLPatternList(counted);
+  const samples = inputs(5);
+  for (const input of samples) {
+    list.execAll(input);
+  }
+  t.log(`${samples.length} lookups over ${patterns.length} patterns tried ${calls} candidates`);
+  t.true(calls < samples.length * 20);
+});
+
+test("benchmark: indexed lookups compared to a linear scan", (t) => {
+  const samples = inputs(5);
+  const time = (list) => {
+    const start = process.hrtime.bigint();
+    for (const input of samples) {
+      list.exec(input);
+    }
+    return Number(process.hrtime.bigint() - start) / 1e6;
+  };
+  // Warm up both lists before measuring.
+  time(indexed);
+  time(linear);
+  const indexedTime = time(indexed);
+  const linearTime = time(linear);
+  t.log(`${samples.length} lookups over ${patterns.length} patterns: ` +
+    `indexed ${indexedTime.toFixed(1)}ms, linear ${linearTime.toFixed(1)}ms`);
+  t.pass();
+});
@@ -0,0 +1,64 @@
+import test from "ava";
+import { URLPattern, URLPatternList } from "urlpattern-polyfill/urlpattern";
+
+const pattern = new URLPattern({ pathname: "/api/:product/:id" });
+
+test("test and exec accept URL objects", (t) => {
+  const url = new URL("https://example.com/api/videos/12?q=1#top");
+  t.true(pattern.test(url));
+  const result = pattern.exec(url);
+  t.is(result.inputs[0], url);
+  t.deepEqual(result.pathname.groups, { product: "videos", id: "12" });
+  t.is(result.search.input, "q=1");
+  t.is(result.hash.input, "top");
+});
+
+test("test and exec accept Location-like objects", (t) => {
+  const location = {
+    href: "https://example.com/api/videos/12",
+    origin: "https://example.com",
+    protocol: "https:",
+    host: "example.com",
+    hostname: "example.com",
+    port: "",
+    pathname: "/api/videos/12",
+    search: "",
+    hash: "",
+  };
+  const result = pattern.exec(location);
+  t.is(result.inputs[0], location);
+  t.is(result.username.input, "");
+  t.deepEqual(result.pathname.groups, { product: "videos", id: "12" });
+});
+
+test("test and exec accept Request objects", (t) => {
+  const request =
+    typeof Request === "function"
+      ? new Request("https://example.com/api/videos/12")
+      : { url: "https://example.com/api/videos/12", method: "GET" };
+  t.true(pattern.test(request));
+  const result = pattern.exec(request);
+  t.is(result.inputs[0], request);
+  t.is(result.pathname.groups.id, "12");
+});
+
+test("URL objects are accepted as baseURL", (t) => {
+  const baseURL = new URL("https://example.com/api/");
+  t.true(pattern.test("videos/12", baseURL));
+  const result = pattern.exec("videos/12", baseURL);
+  t.deepEqual(result.inputs, ["videos/12", baseURL]);
+  t.is(result.pathname.groups.product, "videos");
+});
+
+test("a baseURL is only accepted with string inputs", (t) => {
+  t.throws(() => pattern.test(new URL("https://example.com/api/a/b"), "https://example.com"), {
+    instanceOf: TypeError,
+  });
+});
+
+test("URLPatternList accepts URL objects", (t) => {
+  const list = new URLPatternList([pattern]);
+  t.true(list.test(new URL("https://example.com/api/videos/12")));
+  t.is(list.exec(new URL("https://example.com/api/videos/12")).pathname.groups.id, "12");
+  t.is(list.exec(new URL("https://example.com/other")), null);
+});
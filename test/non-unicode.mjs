@@ -0,0 +1,58 @@
+import test from "ava";
+import { readFileSync } from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { URLPattern } from "urlpattern-polyfill/urlpattern";
+
+import { runTests } from "./wpt/wpt-test-runner.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const options = { unicodeRegExps: false };
+
+// Every pattern of the WPT suite compiled without the `u` flag.
+class NonUnicodeURLPattern extends URLPattern {
+  constructor(...args) {
+    const last = args[args.length - 1];
+    if (args.length > 1 && typeof last === "object" && last !== null) {
+      super(...args.slice(0, -1), { ...last, ...options });
+    } else {
+      super(...(args.length ? args : [{}]), options);
+    }
+  }
+}
+
+test("astral characters are matched as single characters", (t) => {
+  const value = (q) => `https://example.com/?q=${encodeURIComponent(q)}`;
+  const single = new URLPattern({ searchParams: { q: "(.)" } }, options);
+  t.true(single.test(value("\u{1F600}")));
+  t.false(single.test(value("\u{1F600}\u{1F600}")));
+  t.is(single.toJSON().components.pathname.flags, "");
+
+  const emoji = new URLPattern({ searchParams: { q: ":e([\\u{1F600}-\\u{1F64F}]+)" } }, options);
+  t.is(emoji.exec(value("\u{1F600}\u{1F64F}")).searchParams.q.groups.e, "\u{1F600}\u{1F64F}");
+  t.false(emoji.test(value("\u{1F650}")));
+
+  const negated = new URLPattern({ searchParams: { q: "([^a])([^a])" } }, options);
+  t.false(negated.test(value("\u{1F600}")));
+  t.true(negated.test(value("b\u{1F600}")));
+});
+
+test("regexps the u flag rejects are rejected", (t) => {
+  for (const pathname of ["/(\\m)", "/(a{)", "/([\\d-z])", "/(\\p{L})"]) {
+    t.throws(() => new URLPattern({ pathname }, options), { instanceOf: TypeError }, pathname);
+  }
+});
+
+test("patterns compiled without the u flag round-trip through snapshots", (t) => {
+  const pattern = new URLPattern({ pathname: "/:id(\\d+)/*" }, options);
+  const restored = URLPattern.fromJSON(JSON.stringify(pattern));
+  t.is(restored.exec("https://example.com/12/a/b").pathname.groups.id, "12");
+  t.is(restored.generate("pathname", { id: "7", 0: "x" }), "/7/x");
+  t.throws(() => restored.generate("pathname", { id: "x", 0: "x" }), { instanceOf: TypeError });
+});
+
+const data = JSON.parse(readFileSync(path.resolve(__dirname, "urlpatterntestdata.json")));
+
+globalThis.URLPattern = NonUnicodeURLPattern;
+runTests(data, test);
@@ -0,0 +1,82 @@
+import test from "ava";
+import { URLPattern, URLPatternList } from "urlpattern-polyfill/urlpattern";
+
+test("intersects compares every component", (t) => {
+  t.true(URLPattern.intersects(new URLPattern({ pathname: "/a/*" }), new URLPattern({ pathname: "/*/b" })));
+  t.true(
+    URLPattern.intersects(
+      new URLPattern("https://*.example.com/x"),
+      new URLPattern("https://api.example.com/*")
+    )
+  );
+  t.false(
+    URLPattern.intersects(new URLPattern({ pathname: "/admin" }), new URLPattern({ pathname: "/admin/users" }))
+  );
+  t.false(
+    URLPattern.intersects(
+      new URLPattern({ hostname: "example.com", pathname: "/*" }),
+      new URLPattern({ hostname: "example.org", pathname: "/*" })
+    )
+  );
+  t.throws(() => URLPattern.intersects(new URLPattern({}), {}), { instanceOf: TypeError });
+});
+
+test("intersects understands group regexps", (t) => {
+  const numeric = new URLPattern({ pathname: "/users/:id(\\d+)" });
+  t.false(URLPattern.intersects(numeric, new URLPattern({ pathname: "/users/:id([a-z]+)" })));
+  t.true(URLPattern.intersects(numeric, new URLPattern({ pathname: "/users/:id(1|x)" })));
+  t.false(URLPattern.intersects(numeric, new URLPattern({ pathname: "/users/:id<slug>-x" }, { typedGroups: true })));
+});
+
+test("isSubsetOf holds only when every match is shared", (t) => {
+  const any = new URLPattern({ pathname: "/users/*" });
+  const named = new URLPattern({ pathname: "/users/:id" });
+  const numeric = new URLPattern({ pathname: "/users/:id(\\d+)" });
+  t.true(named.isSubsetOf(any));
+  t.false(any.isSubsetOf(named));
+  t.true(numeric.isSubsetOf(named));
+  t.true(new URLPattern({ pathname: "/users/:id<int>" }, { typedGroups: true }).isSubsetOf(named));
+  t.true(named.isSubsetOf(new URLPattern({ pathname: "/users/:other" })));
+  t.false(new URLPattern({ pathname: "/Users/:id" }).isSubsetOf(named));
+  t.true(
+    new URLPattern({ pathname: "/Users/:id" }).isSubsetOf(
+      new URLPattern({ pathname: "/users/:id" }, { ignoreCase: true })
+    )
+  );
+});
+
+test("isSubsetOf accounts for prefix matching and options", (t) => {
+  const admin = new URLPattern({ pathname: "/admin" }, { match: "prefix" });
+  t.true(new URLPattern({ pathname: "/admin/users/:id" }).isSubsetOf(admin));
+  t.false(new URLPattern({ pathname: "/adminx" }).isSubsetOf(admin));
+
+  const validated = new URLPattern({ pathname: "/users/:id" }, { validators: { id: () => true } });
+  t.false(new URLPattern({ pathname: "/users/:id" }).isSubsetOf(validated));
+
+  const params = new URLPattern({ pathname: "/items", searchParams: { id: ":id" } });
+  const numericParams = new URLPattern({ pathname: "/items", searchParams: { id: ":id(\\d+)" } });
+  t.true(numericParams.isSubsetOf(params));
+  t.false(params.isSubsetOf(numericParams));
+});
+
+test("findConflicts reports shadowed and ambiguous entries", (t) => {
+  const list = new URLPatternList([
+    new URLPattern({ pathname: "/users/*" }),
+    new URLPattern({ pathname: "/users/:id" }),
+    new URLPattern({ pathname: "/*/settings" }),
+    new URLPattern({ pathname: "/about" }),
+  ]);
+  const conflicts = list.findConflicts();
+  t.deepEqual(
+    conflicts.map(({ type, index, otherIndex }) => [type, index, otherIndex]),
+    [
+      ["shadowed", 1, 0],
+      ["ambiguous", 2, 0],
+      ["ambiguous", 2, 1],
+    ]
+  );
+  for (const { index, otherIndex, example } of conflicts) {
+    t.true(new URLPattern({ pathname: ["/users/*", "/users/:id", "/*/settings"][index] }).test(example));
+    t.true(new URLPattern({ pathname: ["/users/*", "/users/:id"][otherIndex] }).test(example));
+  }
+});
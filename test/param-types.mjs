@@ -0,0 +1,136 @@
+import test from "ava";
+import { URLPattern, URLPatternSyntaxError } from "urlpattern-polyfill/urlpattern";
+
+const typed = { typedGroups: true };
+
+test("typed groups match and convert their values", (t) => {
+  const pattern = new URLPattern({ pathname: "/users/:id<int>/posts/:slug<slug>" }, typed);
+  t.is(pattern.pathname, "/users/:id<int>/posts/:slug<slug>");
+  const result = pattern.exec("https://example.com/users/42/posts/hello-world");
+  t.deepEqual(result.pathname.groups, { id: 42, slug: "hello-world" });
+  t.false(pattern.test("https://example.com/users/x/posts/hello-world"));
+  t.false(pattern.test("https://example.com/users/42/posts/Hello"));
+
+  const uuid = new URLPattern({ pathname: "/files/:file<uuid>" }, typed);
+  t.true(uuid.test("https://example.com/files/123e4567-e89b-12d3-a456-426614174000"));
+  t.false(uuid.test("https://example.com/files/123e4567"));
+});
+
+test("repeated typed groups convert every repetition", (t) => {
+  const pattern = new URLPattern({ pathname: "/sum/:values<int>+" }, typed);
+  t.deepEqual(pattern.exec("https://example.com/sum/1/-2/3").pathname.groups.values, [1, -2, 3]);
+  t.deepEqual(
+    new URLPattern({ pathname: "/sum/:values<int>*" }, typed).exec("https://example.com/sum").pathname.groups,
+    { values: undefined }
+  );
+});
+
+test("int groups only match safe integers", (t) => {
+  const pattern = new URLPattern({ pathname: "/u/:id<int>" }, typed);
+  t.is(pattern.exec("https://example.com/u/9007199254740991").pathname.groups.id, Number.MAX_SAFE_INTEGER);
+  t.is(pattern.exec("https://example.com/u/-9007199254740991").pathname.groups.id, -Number.MAX_SAFE_INTEGER);
+  t.is(pattern.exec("https://example.com/u/0").pathname.groups.id, 0);
+  t.false(pattern.test("https://example.com/u/007"));
+  t.false(pattern.test("https://example.com/u/-0"));
+  t.false(pattern.test("https://example.com/u/-007"));
+  t.false(pattern.test("https://example.com/u/9007199254740992"));
+  t.false(pattern.test("https://example.com/u/99999999999999999999999"));
+  t.is(pattern.exec("https://example.com/u/99999999999999999999999"), null);
+});
+
+test("range types match exactly their bounds", (t) => {
+  const pattern = new URLPattern({ hostname: "example.com", port: ":port<8000-8999>" }, typed);
+  t.is(pattern.exec("https://example.com:8000/").port.groups.port, 8000);
+  t.true(pattern.test("https://example.com:8999/"));
+  t.false(pattern.test("https://example.com:7999/"));
+  t.false(pattern.test("https://example.com:9000/"));
+
+  const small = new URLPattern({ pathname: "/:n<7-123>" }, typed);
+  for (let n = 0; n <= 200; ++n) {
+    t.is(small.test(`https://example.com/${n}`), n >= 7 && n <= 123, `${n}`);
+  }
+  t.false(small.test("https://example.com/010"));
+});
+
+test("the types option types existing groups", (t) => {
+  const pattern = new URLPattern(
+    { pathname: "/users/:id", searchParams: { page: ":page" } },
+    { types: { id: "int", page: "int" }, allowUnknownSearchParams: true }
+  );
+  t.is(pattern.pathname, "/users/:id<int>");
+  const result = pattern.exec("https://example.com/users/7?page=3");
+  t.is(result.pathname.groups.id, 7);
+  t.is(result.searchParams.page.groups.page, 3);
+  t.false(pattern.test("https://example.com/users/x?page=3"));
+
+  t.throws(() => new URLPattern({ pathname: "/:id(\\d+)" }, { types: { id: "int" } }), {
+    instanceOf: TypeError,
+  });
+  t.throws(() => new URLPattern({ pathname: "/:id" }, { types: { id: "nope" } }), {
+    instanceOf: TypeError,
+  });
+});
+
+test("validators can veto a match", (t) => {
+  const calls = [];
+  const pattern = new URLPattern(
+    { pathname: "/users/:id<int>" },
+    {
+      typedGroups: true,
+      validators: {
+        id: (value, component) => {
+          calls.push([value, component]);
+          return value > 0;
+        },
+      },
+    }
+  );
+  t.true(pattern.test("https://example.com/users/5"));
+  t.is(pattern.exec("https://example.com/users/0"), null);
+  t.false(pattern.test("https://example.com/users/-1"));
+  t.deepEqual(calls[0], [5, "pathname"]);
+
+  t.throws(() => new URLPattern({ pathname: "/:id" }, { validators: { id: true } }), {
+    instanceOf: TypeError,
+  });
+});
+
+test("invalid typed groups are syntax errors", (t) => {
+  const err = t.throws(() => new URLPattern({ pathname: "/:id<nope>" }, typed), {
+    instanceOf: URLPatternSyntaxError,
+  });
+  t.is(err.index, 4);
+  t.is(err.token, "<nope>");
+  t.regex(err.reason, /Unknown parameter type 'nope'/);
+
+  t.throws(() => new URLPattern({ pathname: "/:id<int>(\\d+)" }, typed), {
+    instanceOf: URLPatternSyntaxError,
+  });
+  t.throws(() => new URLPattern({ pathname: "/:n<9-1>" }, typed), { instanceOf: URLPatternSyntaxError });
+});
+
+test("defineType adds a parameter type", (t) => {
+  URLPattern.defineType("hex", { pattern: "[0-9a-f]+", parse: (value) => parseInt(value, 16) });
+  const pattern = new URLPattern({ pathname: "/color/:rgb<hex>" }, typed);
+  t.is(pattern.exec("https://example.com/color/ff").pathname.groups.rgb, 255);
+
+  t.throws(() => URLPattern.defineType("hex", { pattern: "[0-9A-F]+" }), { instanceOf: TypeError });
+  t.throws(() => URLPattern.defineType("pair", { pattern: "(a)(b)" }), { instanceOf: TypeError });
+  t.throws(() => URLPattern.defineType("1st", { pattern: "a" }), { instanceOf: TypeError });
+});
+
+test("typed groups survive a snapshot", (t) => {
+  const pattern = new URLPattern({ pathname: "/:id<int>{-:rev<1-99>}?" }, typed);
+  const restored = URLPattern.fromJSON(JSON.stringify(pattern));
+  t.is(restored.pathname, pattern.pathname);
+  t.deepEqual(restored.exec("https://example.com/12-3").pathname.groups, { id: 12, rev: 3 });
+  t.is(new URLPattern({ pathname: restored.pathname }, typed).pathname, "/:id<int>{-:rev<1-99>}?");
+});
+
+test("typed groups are opt-in", (t) => {
+  const pattern = new URLPattern({ pathname: "/:id<b>" });
+  t.is(pattern.pathname, "/:id%3Cb%3E");
+  t.is(pattern.exec("https://example.com/7%3Cb%3E").pathname.groups.id, "7");
+  t.is(new URLPattern({ pathname: "/:a<int>" }).exec("https://example.com/1%3Cint%3E").pathname.groups.a, "1");
+  t.is(new URLPattern({ pathname: "/:id" }, { types: { id: "int" } }).pathname, "/:id<int>");
+});
@@ -0,0 +1,54 @@
+import test from "ava";
+import { URLPattern, URLPatternList } from "urlpattern-polyfill/urlpattern";
+
+test("lists accept init and baseURL inputs", (t) => {
+  const list = new URLPatternList([{ pathname: "/users/:id" }], { hostname: "example.com" });
+  t.true(list.test({ protocol: "https", hostname: "example.com", pathname: "/users/7" }));
+  t.true(list.test("/users/7", "https://example.com"));
+  t.is(list.exec("/users/7", "https://example.com").pathname.groups.id, "7");
+  t.false(list.test("/users/7", "https://example.org"));
+  t.false(list.test("not a url"));
+  t.is(list.exec("not a url"), null);
+});
+
+test("results report the matching entry", (t) => {
+  const first = new URLPattern({ pathname: "/users/*" });
+  const list = new URLPatternList([first, { pathname: "/users/:id" }, { pathname: "/about" }]);
+  const result = list.exec("https://example.com/users/7");
+  t.is(result.index, 0);
+  t.is(result.pattern, first);
+  t.is(list.exec("https://example.com/about").index, 2);
+
+  const sorted = new URLPatternList([first, { pathname: "/users/:id" }], { sort: true });
+  t.is(sorted.exec("https://example.com/users/7").index, 1);
+});
+
+test("execAll returns every match in matching order", (t) => {
+  const list = new URLPatternList([{ pathname: "/users/*" }, { pathname: "/about" }, { pathname: "/users/:id" }]);
+  const results = list.execAll("https://example.com/users/7");
+  t.deepEqual(
+    results.map((result) => result.index),
+    [0, 2]
+  );
+  t.is(results[1].pathname.groups.id, "7");
+  t.deepEqual(list.execAll("https://example.com/contact"), []);
+});
+
+test("list options constrain URLPattern entries", (t) => {
+  const list = new URLPatternList([new URLPattern({ pathname: "/users/:id" })], {
+    hostname: "api.example.com",
+  });
+  t.true(list.test("https://api.example.com/users/7"));
+  t.false(list.test("https://example.com/users/7"));
+});
+
+test("construction errors name the offending entry", (t) => {
+  const err = t.throws(() => new URLPatternList([{ pathname: "/ok" }, { pathname: "/:id(" }]), {
+    instanceOf: TypeError,
+  });
+  t.regex(err.message, /^Failed to construct 'URLPatternList': invalid entry 1\. /);
+  t.regex(err.message, /invalid pathname pattern '\/:id\('/);
+
+  t.throws(() => new URLPatternList([42]), { message: /entry 0 is not a URLPattern/ });
+  t.throws(() => new URLPatternList("/foo"), { instanceOf: TypeError });
+});
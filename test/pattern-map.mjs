@@ -0,0 +1,77 @@
+import test from "ava";
+import { URLPattern, URLPatternMap } from "urlpattern-polyfill/urlpattern";
+
+test("get returns the value and result of the first match", (t) => {
+  const users = new URLPattern({ pathname: "/users/:id" });
+  const map = new URLPatternMap([
+    [users, "user"],
+    [{ pathname: "/users/*" }, "users"],
+    [{ pathname: "/about" }, "about"],
+  ]);
+  t.is(map.size, 3);
+  const match = map.get("https://example.com/users/7");
+  t.is(match.value, "user");
+  t.is(match.id, 0);
+  t.is(match.pattern, users);
+  t.is(match.result.pathname.groups.id, "7");
+  t.is(map.get("/about", "https://example.com").value, "about");
+  t.is(map.get("https://example.com/contact"), undefined);
+});
+
+test("getAll returns every match in matching order", (t) => {
+  const map = new URLPatternMap([
+    [{ pathname: "/users/*" }, "users"],
+    [{ pathname: "/about" }, "about"],
+    [{ pathname: "/users/:id" }, "user"],
+  ]);
+  t.deepEqual(
+    map.getAll("https://example.com/users/7").map((match) => [match.id, match.value]),
+    [[0, "users"], [2, "user"]]
+  );
+  t.deepEqual(map.getAll("https://example.com/contact"), []);
+});
+
+test("ids stay stable when entries are added and deleted", (t) => {
+  const map = new URLPatternMap();
+  const a = map.set({ pathname: "/a" }, "a");
+  const b = map.set({ pathname: "/b" }, "b");
+  t.is(map.get("https://example.com/b").id, b);
+  t.true(map.delete(a));
+  t.false(map.delete(a));
+  t.false(map.has(a));
+  t.true(map.has(b));
+  t.is(map.get("https://example.com/a"), undefined);
+  t.is(map.get("https://example.com/b").id, b);
+
+  const c = map.set({ pathname: "/a" }, "c");
+  t.not(c, a);
+  t.is(map.get("https://example.com/a").value, "c");
+  map.clear();
+  t.is(map.size, 0);
+  t.is(map.get("https://example.com/b"), undefined);
+});
+
+test("entries iterate in priority order", (t) => {
+  const entries = [
+    [{ pathname: "/users/*" }, "users"],
+    [{ pathname: "/users/:id" }, "user"],
+    [{ pathname: "/users/me" }, "me"],
+  ];
+  t.deepEqual([...new URLPatternMap(entries).values()], ["users", "user", "me"]);
+
+  const sorted = new URLPatternMap(entries, { sort: true });
+  t.deepEqual([...sorted.values()], ["me", "user", "users"]);
+  t.deepEqual([...sorted].map((entry) => entry.id), [2, 1, 0]);
+  t.is(sorted.get("https://example.com/users/me").value, "me");
+  sorted.set({ pathname: "/users/new" }, "new");
+  t.is(sorted.get("https://example.com/users/new").value, "new");
+  t.deepEqual([...sorted.values()], ["new", "me", "user", "users"]);
+});
+
+test("set rejects invalid patterns", (t) => {
+  const map = new URLPatternMap();
+  const err = t.throws(() => map.set({ pathname: "/:id(" }, "broken"), { instanceOf: TypeError });
+  t.regex(err.message, /^Failed to execute 'set' on 'URLPatternMap': /);
+  t.throws(() => map.set(42, "number"), { message: /parameter 1 is not a URLPattern/ });
+  t.is(map.size, 0);
+});
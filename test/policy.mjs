@@ -0,0 +1,64 @@
+import test from "ava";
+import { URLPattern, URLPatternPolicyError, URLPatternSyntaxError } from "urlpattern-polyfill/urlpattern";
+
+test("regexp groups can be disallowed", (t) => {
+  const err = t.throws(() => new URLPattern({ pathname: "/users/:id(\\d+)" }, { allowRegExpGroups: false }), {
+    instanceOf: URLPatternPolicyError,
+  });
+  t.true(err instanceof TypeError);
+  t.is(err.rule, "allowRegExpGroups");
+  t.is(err.component, "pathname");
+  t.is(err.index, 7);
+  t.regex(err.message, /^Failed to construct 'URLPattern': the pathname pattern '\/users\/:id\(\\d\+\)' has a regexp in group 'id'/);
+
+  const search = t.throws(() => new URLPattern({ searchParams: { q: "(a|b)" } }, { allowRegExpGroups: false }));
+  t.is(search.searchParam, "q");
+  for (const pathname of ["/users/:id", "/files/*", "/:id<int>", "/(.*)"]) {
+    t.notThrows(() => new URLPattern({ pathname }, { allowRegExpGroups: false, typedGroups: true }), pathname);
+  }
+});
+
+test("pattern length and group count are limited", (t) => {
+  t.is(t.throws(() => new URLPattern("https://example.com/a/long/path", { maxPatternLength: 20 })).rule,
+       "maxPatternLength");
+  t.is(t.throws(() => new URLPattern({ pathname: "/a/long/path" }, { maxPatternLength: 5 })).component,
+       "pathname");
+  t.notThrows(() => new URLPattern({ pathname: "/short" }, { maxPatternLength: 6 }));
+
+  const err = t.throws(() => new URLPattern({ pathname: "/:a/:b/:c" }, { maxGroups: 2 }), {
+    instanceOf: URLPatternPolicyError,
+  });
+  t.is(err.rule, "maxGroups");
+  t.is(err.index, 7);
+  t.notThrows(() => new URLPattern({ pathname: "/:a/:b" }, { maxGroups: 2 }));
+  t.is(t.throws(() => new URLPattern({ pathname: "/:a", searchParams: { q: ":q" } }, { maxGroups: 1 })).rule,
+       "maxGroups");
+});
+
+test("only allowed components may be constrained", (t) => {
+  const options = { allowedComponents: ["pathname", "search"] };
+  t.notThrows(() => new URLPattern({ pathname: "/a", search: "q=:q" }, options));
+  const err = t.throws(() => new URLPattern({ hostname: "admin.example.com", pathname: "/a" }, options), {
+    instanceOf: URLPatternPolicyError,
+  });
+  t.is(err.rule, "allowedComponents");
+  t.is(err.component, "hostname");
+  t.is(t.throws(() => new URLPattern({ pathname: "/a" }, { allowedComponents: [] })).rule, "allowedComponents");
+});
+
+test("policy errors are distinct from other construction errors", (t) => {
+  const syntax = t.throws(() => new URLPattern({ pathname: "/:id(" }, { allowRegExpGroups: false }));
+  t.true(syntax instanceof URLPatternSyntaxError);
+  t.false(syntax instanceof URLPatternPolicyError);
+  const invalid = t.throws(() => new URLPattern({ pathname: "/" }, { maxGroups: -1 }), { instanceOf: TypeError });
+  t.false(invalid instanceof URLPatternPolicyError);
+});
+
+test("hasRegExpGroups reports custom regexps", (t) => {
+  t.true(new URLPattern({ pathname: "/users/:id(\\d+)" }).hasRegExpGroups);
+  t.true(new URLPattern({ searchParams: { q: "(a|b)" } }).hasRegExpGroups);
+  t.true(URLPattern.fromJSON(new URLPattern({ hash: "(\\d+)" }).toJSON()).hasRegExpGroups);
+  t.false(new URLPattern({ pathname: "/users/:id/*" }).hasRegExpGroups);
+  t.false(new URLPattern({ pathname: "/(.*)/:id<int>" }, { typedGroups: true }).hasRegExpGroups);
+  t.false(new URLPattern({ hostname: ":sub([^\\.]+?).example.com" }).hasRegExpGroups);
+});
@@ -0,0 +1,51 @@
+import test from "ava";
+import { URLPattern } from "urlpattern-polyfill/urlpattern";
+
+test("prefix patterns match on a segment boundary", (t) => {
+  const pattern = new URLPattern({ pathname: "/admin" }, { match: "prefix" });
+  t.true(pattern.test("https://example.com/admin"));
+  t.true(pattern.test("https://example.com/admin/"));
+  t.true(pattern.test("https://example.com/admin/users/7"));
+  t.false(pattern.test("https://example.com/adminx"));
+  t.false(pattern.test("https://example.com/other/admin"));
+});
+
+test("prefix patterns report the unmatched remainder", (t) => {
+  const pattern = new URLPattern({ pathname: "/admin" }, { match: "prefix" });
+  t.is(pattern.exec("https://example.com/admin/users/7").pathname.rest, "/users/7");
+  t.is(pattern.exec("https://example.com/admin").pathname.rest, "");
+
+  const trailing = new URLPattern({ pathname: "/admin/" }, { match: "prefix" });
+  t.is(trailing.exec("https://example.com/admin/users").pathname.rest, "users");
+});
+
+test("prefix patterns capture groups in the matched prefix", (t) => {
+  const pattern = new URLPattern("https://example.com/orgs/:org", { match: "prefix" });
+  const result = pattern.exec("https://example.com/orgs/acme/repos");
+  t.deepEqual(result.pathname.groups, { org: "acme" });
+  t.is(result.pathname.rest, "/repos");
+});
+
+test("exact patterns have no remainder", (t) => {
+  const pattern = new URLPattern({ pathname: "/admin" });
+  t.false(pattern.test("https://example.com/admin/users"));
+  t.false("rest" in pattern.exec("https://example.com/admin").pathname);
+});
+
+test("prefix patterns respect ignoreCase", (t) => {
+  const pattern = new URLPattern({ pathname: "/Admin" }, { match: "prefix", ignoreCase: true });
+  t.is(pattern.exec("https://example.com/admin/x").pathname.rest, "/x");
+});
+
+test("prefix mode survives a snapshot", (t) => {
+  const pattern = new URLPattern({ pathname: "/admin" }, { match: "prefix" });
+  const restored = URLPattern.fromJSON(JSON.stringify(pattern));
+  t.is(restored.exec("https://example.com/admin/users").pathname.rest, "/users");
+  t.false(restored.test("https://example.com/adminx"));
+});
+
+test("invalid match options throw", (t) => {
+  t.throws(() => new URLPattern({ pathname: "/admin" }, { match: "suffix" }), {
+    instanceOf: TypeError,
+  });
+});
@@ -0,0 +1,187 @@
+import test from "ava";
+import http from "node:http";
+import { URLPattern } from "urlpattern-polyfill/urlpattern";
+import { URLPatternRouter } from "urlpattern-polyfill/router";
+import { URLPattern as ASCIIURLPattern } from "urlpattern-polyfill/ascii";
+
+// Node.js only has the Fetch API from version 18.
+const hasFetch = typeof Request === "function" && typeof fetch === "function";
+const fetchTest = hasFetch ? test : test.skip;
+
+const json = (value, init) =>
+  new Response(JSON.stringify(value), { ...init, headers: { "content-type": "application/json" } });
+
+fetchTest("routes dispatch by method and pattern", async (t) => {
+  const router = new URLPatternRouter()
+    .get("/users/:id", (request, result) => json({ id: result.pathname.groups.id }))
+    .post("/users", async (request) => json(await request.json(), { status: 201 }))
+    .add("purge", { hostname: "cache.example.com", pathname: "/*" }, () => new Response("purged"))
+    .all(new URLPattern({ pathname: "/echo" }), (request) => new Response(request.method));
+
+  const response = await router.handle(new Request("https://example.com/users/7"));
+  t.is(response.status, 200);
+  t.deepEqual(await response.json(), { id: "7" });
+
+  const created = await router.handle(new Request("https://example.com/users", {
+    method: "POST",
+    body: JSON.stringify({ name: "ada" }),
+  }));
+  t.is(created.status, 201);
+  t.deepEqual(await created.json(), { name: "ada" });
+
+  const purged = await router.handle(new Request("https://cache.example.com/x", { method: "PURGE" }));
+  t.is(await purged.text(), "purged");
+  const echoed = await router.handle(new Request("https://example.com/echo", { method: "PUT" }));
+  t.is(await echoed.text(), "PUT");
+});
+
+fetchTest("patterns from other builds are used as they are", async (t) => {
+  const ascii = new ASCIIURLPattern({ pathname: "/Docs/:id<int>" }, { ignoreCase: true, typedGroups: true });
+  t.false(ascii instanceof URLPattern);
+  const router = new URLPatternRouter()
+    .get(ascii, (request, result) => json({ id: result.pathname.groups.id }))
+    .get(new ASCIIURLPattern({ pathname: "/files" }, { match: "prefix" }), (request, result) =>
+      new Response(result.pathname.rest));
+
+  const response = await router.handle(new Request("https://example.com/docs/7"));
+  t.deepEqual(await response.json(), { id: 7 });
+  t.is((await router.handle(new Request("https://example.com/docs/x"))).status, 404);
+  t.is(await (await router.handle(new Request("https://example.com/files/a/b"))).text(), "/a/b");
+});
+
+fetchTest("unmatched requests get 404 and 405 responses", async (t) => {
+  const router = new URLPatternRouter()
+    .get("/users/:id", () => new Response("user"))
+    .delete("/users/:id", () => new Response(null, { status: 204 }));
+
+  const missing = await router.handle(new Request("https://example.com/about"));
+  t.is(missing.status, 404);
+
+  const notAllowed = await router.handle(new Request("https://example.com/users/7", { method: "POST" }));
+  t.is(notAllowed.status, 405);
+  t.is(notAllowed.headers.get("allow"), "GET, HEAD, DELETE");
+
+  const head = await router.handle(new Request("https://example.com/users/7", { method: "HEAD" }));
+  t.is(head.status, 200);
+  t.is(await head.text(), "");
+
+  const custom = new URLPatternRouter({
+    notFound: (request) => new Response(`no route for ${new URL(request.url).pathname}`, { status: 404 }),
+  });
+  t.is(await (await custom.handle(new Request("https://example.com/x"))).text(), "no route for /x");
+});
+
+fetchTest("middleware wraps routing in order", async (t) => {
+  const calls = [];
+  const router = new URLPatternRouter()
+    .use(async (request, next) => {
+      calls.push("outer");
+      const response = await next();
+      response.headers.set("x-outer", "1");
+      return response;
+    })
+    .use((request, next) => {
+      calls.push("inner");
+      if (request.headers.get("authorization") !== "secret") {
+        return new Response(null, { status: 401 });
+      }
+      return next();
+    })
+    .get("/private", () => new Response("ok"));
+
+  const denied = await router.handle(new Request("https://example.com/private"));
+  t.is(denied.status, 401);
+  t.is(denied.headers.get("x-outer"), "1");
+
+  const allowed = await router.handle(new Request("https://example.com/private", {
+    headers: { authorization: "secret" },
+  }));
+  t.is(await allowed.text(), "ok");
+  t.deepEqual(calls, ["outer", "inner", "outer", "inner"]);
+});
+
+fetchTest("mounted routers match the rest of the pathname", async (t) => {
+  const repos = new URLPatternRouter()
+    .use(async (request, next) => {
+      const response = await next();
+      response.headers.set("x-repos", "1");
+      return response;
+    })
+    .get("/", (request, result) => new Response(`repos of ${result.pathname.groups.org}`))
+    .get("/:repo", (request, result) => json(result.pathname.groups));
+  const router = new URLPatternRouter()
+    .mount("/orgs/:org/repos", repos)
+    .get("/orgs/:org/repos/fallback", () => new Response("unreachable"));
+
+  const list = await router.handle(new Request("https://example.com/orgs/acme/repos"));
+  t.is(await list.text(), "repos of acme");
+  t.is(list.headers.get("x-repos"), "1");
+
+  const repo = await router.handle(new Request("https://example.com/orgs/acme/repos/polyfill"));
+  t.deepEqual(await repo.json(), { org: "acme", repo: "polyfill" });
+
+  const missing = await router.handle(new Request("https://example.com/orgs/acme/repos/a/b"));
+  t.is(missing.status, 404);
+  t.is(missing.headers.get("x-repos"), "1");
+  t.is((await router.handle(new Request("https://example.com/orgs/acme/reposx"))).status, 404);
+});
+
+test("invalid routes throw", (t) => {
+  const router = new URLPatternRouter();
+  const err = t.throws(() => router.get("/:id(", () => new Response()), { instanceOf: TypeError });
+  t.regex(err.message, /^Failed to execute 'add' on 'URLPatternRouter': /);
+  t.throws(() => router.get("/", "not a handler"), { message: /parameter 3 is not a function/ });
+  t.throws(() => router.mount("/self", router), { instanceOf: TypeError });
+});
+
+fetchTest("routers serve node:http requests", async (t) => {
+  const router = new URLPatternRouter()
+    .get("/hello/:name", (request, result) =>
+      new Response(`hello ${result.pathname.groups.name}`, {
+        headers: [["set-cookie", "a=1"], ["set-cookie", "b=2"]],
+      }))
+    .post("/echo", async (request) => new Response(await request.text()))
+    .get("/fail", () => {
+      throw new Error("boom");
+    });
+  const server = http.createServer(router.toNodeListener());
+  await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const origin = `http://127.0.0.1:${server.address().port}`;
+  try {
+    const hello = await fetch(`${origin}/hello/world`);
+    t.is(hello.status, 200);
+    t.is(await hello.text(), "hello world");
+    t.is(hello.headers.get("set-cookie"), "a=1, b=2");
+
+    const echo = await fetch(`${origin}/echo`, { method: "POST", body: "ping" });
+    t.is(await echo.text(), "ping");
+
+    t.is((await fetch(`${origin}/echo`)).status, 405);
+    t.is((await fetch(`${origin}/missing`)).status, 404);
+    t.is((await fetch(`${origin}/fail`)).status, 500);
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+});
+
+test("routers need the Fetch API", (t) => {
+  const { Request: request, Response: response } = globalThis;
+  delete globalThis.Request;
+  delete globalThis.Response;
+  try {
+    const router = new URLPatternRouter().get("/", () => "unreachable");
+    const err = t.throws(() => router.handle({ url: "https://example.com/", method: "GET" }), { instanceOf: TypeError });
+    t.regex(err.message, /^Failed to execute 'handle' on 'URLPatternRouter': this runtime has no Fetch API/);
+    t.throws(() => router.toNodeListener(), { message: /has no Fetch API/ });
+  } finally {
+    if (request) {
+      globalThis.Request = request;
+      globalThis.Response = response;
+    }
+  }
+});
+
+test("the main entry points do not include the router", async (t) => {
+  t.is((await import("urlpattern-polyfill")).URLPatternRouter, undefined);
+  t.is((await import("urlpattern-polyfill/urlpattern")).URLPatternRouter, undefined);
+});
@@ -0,0 +1,81 @@
+import test from "ava";
+import { URLPattern } from "urlpattern-polyfill/urlpattern";
+
+test("searchParams match regardless of order", (t) => {
+  const pattern = new URLPattern({
+    pathname: "/items",
+    searchParams: { id: ":id(\\d+)", sort: "(asc|desc)?" },
+  });
+  t.true(pattern.test("https://example.com/items?id=7&sort=asc"));
+  t.true(pattern.test("https://example.com/items?sort=asc&id=7"));
+  t.true(pattern.test("https://example.com/items?id=7"));
+  t.false(pattern.test("https://example.com/items?id=x"));
+  t.false(pattern.test("https://example.com/items?id=7&sort=up"));
+  t.false(pattern.test("https://example.com/items?sort=asc"));
+});
+
+test("searchParams results report groups and values", (t) => {
+  const pattern = new URLPattern({
+    pathname: "/items",
+    searchParams: { id: ":id(\\d+)", q: ":query" },
+  });
+  const result = pattern.exec("https://example.com/items?q=red+shoes&id=7");
+  t.deepEqual(result.searchParams, {
+    id: { input: "7", values: ["7"], groups: { id: "7" } },
+    q: { input: "red shoes", values: ["red shoes"], groups: { query: "red shoes" } },
+  });
+  t.is(result.search.input, "q=red+shoes&id=7");
+});
+
+test("unknown parameters are rejected unless permitted", (t) => {
+  const init = { pathname: "/items", searchParams: { id: ":id" } };
+  const strict = new URLPattern(init);
+  t.false(strict.test("https://example.com/items?id=7&utm_source=mail"));
+
+  const loose = new URLPattern(init, { allowUnknownSearchParams: true });
+  t.true(loose.test("https://example.com/items?utm_source=mail&id=7"));
+});
+
+test("repeated parameters must match on every occurrence", (t) => {
+  const pattern = new URLPattern({
+    pathname: "/items",
+    searchParams: { tag: "(red|blue)" },
+  });
+  const result = pattern.exec("https://example.com/items?tag=red&tag=blue");
+  t.deepEqual(result.searchParams.tag, {
+    input: "red",
+    values: ["red", "blue"],
+    groups: { 0: "red" },
+  });
+  t.false(pattern.test("https://example.com/items?tag=red&tag=green"));
+});
+
+test("searchParams override the search inherited from a baseURL", (t) => {
+  const pattern = new URLPattern({
+    pathname: "/items",
+    searchParams: { id: ":id" },
+    baseURL: "https://example.com/?page=1",
+  });
+  t.is(pattern.search, "*");
+  t.deepEqual(pattern.searchParams, { id: ":id" });
+  t.true(pattern.test("https://example.com/items?id=7"));
+});
+
+test("searchParams survive a snapshot", (t) => {
+  const pattern = new URLPattern(
+    { pathname: "/items", searchParams: { id: ":id(\\d+)" } },
+    { allowUnknownSearchParams: true }
+  );
+  const restored = URLPattern.fromJSON(JSON.stringify(pattern));
+  t.deepEqual(restored.searchParams, { id: ":id(\\d+)" });
+  t.is(restored.exec("https://example.com/items?x=1&id=7").searchParams.id.groups.id, "7");
+  t.false(restored.test("https://example.com/items?id=x"));
+});
+
+test("invalid searchParams throw", (t) => {
+  t.throws(() => new URLPattern({ search: "a=1", searchParams: { a: "1" } }), {
+    instanceOf: TypeError,
+  });
+  t.throws(() => new URLPattern({ searchParams: { a: 1 } }), { instanceOf: TypeError });
+  t.throws(() => new URLPattern({ searchParams: { a: "(" } }), { instanceOf: TypeError });
+});
@@ -0,0 +1,51 @@
+import test from "ava";
+import v8 from "v8";
+import { URLPattern } from "urlpattern-polyfill/urlpattern";
+
+const baseURL = "https://example.com";
+
+test("toJSON snapshot restores an equivalent pattern", (t) => {
+  const pattern = new URLPattern({ pathname: "/api/:product/:id(\\d+)?" });
+  const restored = URLPattern.fromJSON(JSON.stringify(pattern));
+
+  t.is(restored.pathname, pattern.pathname);
+  t.is(restored.protocol, pattern.protocol);
+  t.true(restored.test(baseURL + "/api/videos/12"));
+  t.false(restored.test(baseURL + "/api/videos/abc"));
+  t.deepEqual(
+    restored.exec(baseURL + "/api/videos/12"),
+    pattern.exec(baseURL + "/api/videos/12")
+  );
+});
+
+test("snapshot survives the structured clone algorithm", (t) => {
+  const pattern = new URLPattern("https://:sub.example.com/*", { ignoreCase: true });
+  const clone = v8.deserialize(v8.serialize(pattern.toJSON()));
+  const restored = URLPattern.fromJSON(clone);
+
+  t.true(restored.test("https://shop.example.com/FOO"));
+  t.is(restored.exec("https://shop.example.com/FOO").hostname.groups.sub, "shop");
+});
+
+test("restored pattern keeps non-special pathname options", (t) => {
+  const pattern = new URLPattern("data\\:foo/*");
+  const restored = URLPattern.fromJSON(pattern.toJSON());
+  t.is(restored.test("data:foo/bar"), pattern.test("data:foo/bar"));
+  t.is(restored.generate("pathname", { 0: "x y" }), pattern.generate("pathname", { 0: "x y" }));
+});
+
+test("fromJSON rejects stale or malformed snapshots", (t) => {
+  const snapshot = new URLPattern({ pathname: "/foo" }).toJSON();
+  t.throws(() => URLPattern.fromJSON({ ...snapshot, version: snapshot.version + 1 }), {
+    instanceOf: TypeError,
+    message: /version/,
+  });
+
+  const { pathname, ...components } = snapshot.components;
+  t.throws(() => URLPattern.fromJSON({ ...snapshot, components }), {
+    instanceOf: TypeError,
+    message: /pathname/,
+  });
+  t.throws(() => URLPattern.fromJSON("not json"), { instanceOf: TypeError });
+  t.throws(() => URLPattern.fromJSON(null), { instanceOf: TypeError });
+});
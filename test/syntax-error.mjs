@@ -0,0 +1,88 @@
+import test from "ava";
+import { URLPattern, URLPatternSyntaxError } from "urlpattern-polyfill/urlpattern";
+
+test("syntax errors are TypeErrors with the component and position", (t) => {
+  const err = t.throws(() => new URLPattern({ pathname: "/foo/:" }), {
+    instanceOf: URLPatternSyntaxError,
+  });
+  t.true(err instanceof TypeError);
+  t.is(err.component, "pathname");
+  t.is(err.pattern, "/foo/:");
+  t.is(err.index, 5);
+  t.is(err.token, ":");
+  t.is(err.input, undefined);
+  t.is(err.inputIndex, undefined);
+  t.is(
+    err.message,
+    "Failed to construct 'URLPattern': invalid pathname pattern '/foo/:'. " +
+      "Missing parameter name at 5\n  /foo/:\n       ^"
+  );
+});
+
+test("syntax errors map offsets into the constructor string", (t) => {
+  const input = "https://example.com/foo/(bar";
+  const err = t.throws(() => new URLPattern(input), {
+    instanceOf: URLPatternSyntaxError,
+  });
+  t.is(err.component, "pathname");
+  t.is(err.pattern, "/foo/(bar");
+  t.is(err.index, 5);
+  t.is(err.token, "(");
+  t.is(err.input, input);
+  t.is(err.inputIndex, 24);
+  t.is(input[err.inputIndex], "(");
+  t.true(err.message.endsWith(`\n  ${input}\n  ${" ".repeat(24)}^`));
+});
+
+test("syntax errors report duplicate and unexpected tokens", (t) => {
+  const duplicate = t.throws(() => new URLPattern({ pathname: "/:id/:id" }), {
+    instanceOf: URLPatternSyntaxError,
+  });
+  t.is(duplicate.index, 5);
+  t.is(duplicate.token, ":id");
+
+  const unbalanced = t.throws(() => new URLPattern({ hostname: "{foo" }), {
+    instanceOf: URLPatternSyntaxError,
+  });
+  t.is(unbalanced.component, "hostname");
+  t.is(unbalanced.index, 4);
+  t.is(unbalanced.token, "");
+});
+
+test("syntax errors report invalid component characters", (t) => {
+  const err = t.throws(() => new URLPattern({ port: ":id(\\d+)abc" }), {
+    instanceOf: URLPatternSyntaxError,
+  });
+  t.is(err.component, "port");
+  t.is(err.index, 8);
+  t.regex(err.reason, /Invalid port 'abc'/);
+
+  const hostname = t.throws(() => new URLPattern("https://ex ample.com/"), {
+    instanceOf: URLPatternSyntaxError,
+  });
+  t.is(hostname.component, "hostname");
+  t.is(hostname.inputIndex, 8);
+});
+
+test("offsets account for the base URL path of relative patterns", (t) => {
+  const err = t.throws(() => new URLPattern("foo/:id(", "https://example.com/bar/"), {
+    instanceOf: URLPatternSyntaxError,
+  });
+  t.is(err.pattern, "/bar/foo/:id(");
+  t.is(err.index, 12);
+  t.is(err.inputIndex, 7);
+});
+
+test("syntax errors report invalid protocols in the constructor string", (t) => {
+  const err = t.throws(() => new URLPattern("foo/:", "https://example.com/"), {
+    instanceOf: URLPatternSyntaxError,
+  });
+  t.is(err.component, "protocol");
+  t.is(err.pattern, "foo/");
+  t.is(err.inputIndex, 0);
+});
+
+test("other construction errors remain plain TypeErrors", (t) => {
+  const err = t.throws(() => new URLPattern("/foo"), { instanceOf: TypeError });
+  t.false(err instanceof URLPatternSyntaxError);
+});
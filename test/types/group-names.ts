@@ -0,0 +1,48 @@
+// Compile-time checks of the group names the `URLPattern` constructor infers.
+// This file is type-checked by `npm test` and never run.
+import { URLPattern } from "urlpattern-polyfill/urlpattern";
+
+type Equal<A, B> = (<T>() => T extends A ? 1 : 2) extends (<T>() => T extends B ? 1 : 2) ? true : false;
+declare function expectType<T extends true>(): void;
+
+type Groups<P, C extends "protocol" | "hostname" | "pathname"> =
+  P extends { exec(...args: any[]): infer R } ? NonNullable<R> extends { [K in C]: { groups: infer G } } ? G : never : never;
+
+const named = new URLPattern({ pathname: "/users/:id/posts/:post?" });
+expectType<Equal<Groups<typeof named, "pathname">, { id: string; post: string | undefined }>>();
+expectType<Equal<Groups<typeof named, "hostname">, { 0: string }>>();
+
+const anonymous = new URLPattern({ pathname: "/(\\d+)/:name/*" });
+expectType<Equal<Groups<typeof anonymous, "pathname">, { 0: string; name: string; 1: string }>>();
+
+const string = new URLPattern("https://:sub.example.com/files/:file+");
+expectType<Equal<Groups<typeof string, "hostname">, { sub: string }>>();
+expectType<Equal<Groups<typeof string, "pathname">, { file: string }>>();
+expectType<Equal<Groups<typeof string, "protocol">, {}>>();
+
+const braces = new URLPattern({ pathname: "/:a{-:b}?" });
+expectType<Equal<Groups<typeof braces, "pathname">, { a: string; b: string | undefined }>>();
+
+// `<type>` is plain text unless the options enable typed groups.
+const untyped = new URLPattern({ pathname: "/:id<int>" });
+expectType<Equal<Groups<typeof untyped, "pathname">, { id: string }>>();
+const typed = new URLPattern({ pathname: "/:id<int>/:n<1-9>?" }, { typedGroups: true });
+expectType<Equal<Groups<typeof typed, "pathname">, { id: number; n: number | undefined }>>();
+const withTypes = new URLPattern({ pathname: "/:id<uuid>" }, { types: {} });
+expectType<Equal<Groups<typeof withTypes, "pathname">, { id: string }>>();
+const repeated = new URLPattern("https://example.com/sum/:values<int>+", { typedGroups: true });
+expectType<Equal<Groups<typeof repeated, "pathname">, { values: number[] }>>();
+
+const withBaseURL = new URLPattern({ pathname: "/:id", baseURL: "https://example.com" });
+expectType<Equal<Groups<typeof withBaseURL, "hostname">, {}>>();
+
+declare const pathname: string;
+const loose = new URLPattern({ pathname });
+expectType<Equal<Groups<typeof loose, "pathname">, { [key: string]: string | undefined }>>();
+
+const result = named.exec("https://example.com/users/1/posts");
+if (result) {
+  result.pathname.groups.id.toUpperCase();
+  // @ts-expect-error
+  result.pathname.groups.missing;
+}
@@ -0,0 +1,59 @@
+import test from "ava";
+import { readFileSync } from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { URLPattern } from "urlpattern-polyfill/urlpattern";
+
+import { runTests } from "./wpt/wpt-test-runner.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+// Every test of this file uses the built-in parser, including the WPT suite.
+URLPattern.setURLParser("builtin");
+
+const inputs = [
+  "HTTPS://user:p@[::1]:443/a/../b/./c?q= #f g",
+  "http://0x7f.1/%2e%2E/a b",
+  "http://[1:0:0:2::3]/?a='b'",
+  "http://münchen.de/straße?ä=ö#ü",
+  "file:///C|/x/../..",
+  "foo:a b ?x",
+  "non-spec:/.//p",
+  "sc://h:8/a/../b?c#d",
+];
+
+function components(result) {
+  const { inputs, ...rest } = result;
+  return Object.fromEntries(Object.entries(rest).map(([name, value]) => [name, value.input]));
+}
+
+test("the built-in parser agrees with the native URL", (t) => {
+  const pattern = new URLPattern({});
+  for (const input of inputs) {
+    URLPattern.setURLParser("native");
+    const expected = components(pattern.exec(input));
+    URLPattern.setURLParser("builtin");
+    t.deepEqual(components(pattern.exec(input)), expected, input);
+  }
+  t.is(pattern.exec("http://[::1/"), null);
+  t.is(pattern.exec("http://a:99999/"), null);
+  t.is(pattern.exec("../c?d", "http://a/b/e").pathname.input, "/c");
+});
+
+test("patterns are canonicalized and generated with the built-in parser", (t) => {
+  const pattern = new URLPattern({ protocol: "https", hostname: "ünï.example", pathname: "/a b/:id", searchParams: { q: ":q" } });
+  t.is(pattern.hostname, "xn--n-nga1b.example");
+  t.is(pattern.pathname, "/a%20b/:id");
+  t.is(pattern.exec("https://ünï.example/a b/7?q=x+y%21").searchParams.q.groups.q, "x y!");
+  t.is(pattern.generate("href", { pathname: { id: "8" } }), "https://xn--n-nga1b.example/a%20b/8");
+});
+
+test("setURLParser rejects unknown parsers", (t) => {
+  t.throws(() => URLPattern.setURLParser("other"), { instanceOf: TypeError });
+  t.is(new URLPattern({ pathname: "/a" }).pathname, "/a");
+});
+
+const data = JSON.parse(readFileSync(path.resolve(__dirname, "urlpatterntestdata.json")));
+
+globalThis.URLPattern = URLPattern;
+runTests(data, test);